@@ -1,16 +1,46 @@
-export type RetryStrategy = 'fixed' | 'exponential' | 'linear'
+import type { InvocationContext } from '@azure/functions'
+
+export type RetryStrategy = 'fixed' | 'exponential' | 'linear' | 'full-jitter' | 'equal-jitter' | 'decorrelated-jitter'
+
+/**
+ * Calculates the delay in seconds before the next retry. retryCount starts at 0 for the first retry.
+ */
+export type RetryStrategyFunction = (retryCount: number, context: InvocationContext, lastError: unknown) => number
+
+/**
+ * The attempt for which a delay is calculated.
+ *
+ * @property context - The invocation context of the failed attempt.
+ * @property lastError - The error thrown by the handler.
+ * @property previousDelaySeconds - Optional: The delay with which the message was last rescheduled.
+ */
+export type BackoffAttempt = {
+  context: InvocationContext
+  lastError: unknown
+  previousDelaySeconds?: number
+}
 
 export type RetryConfiguration = {
   maxRetries: number               // Maximum number of retry attempts
-  retryStrategy?: RetryStrategy    // Type of backoff strategy: 'fixed', 'linear' or 'exponential' (default: 'fixed')
+  retryStrategy?: RetryStrategy | RetryStrategyFunction | readonly number[] // Type of backoff strategy: 'fixed', 'linear', 'exponential', 'full-jitter', 'equal-jitter' or 'decorrelated-jitter', a function returning the delay in seconds, or a schedule of delays in seconds where the last entry repeats (default: 'fixed')
   delaySeconds: number             // Initial delay in seconds between retries (for all strategies)
-  maxDelaySeconds?: number         // Optional: Maximum delay for exponential backoff (to avoid too long waits)
-  exponentialFactor?: number       // Optional: Factor by which delay increases for exponential backoff (default: 2)
+  maxDelaySeconds?: number         // Optional: Maximum delay for exponential, jitter, custom and schedule backoff (to avoid too long waits)
+  exponentialFactor?: number       // Optional: Factor by which delay increases for exponential, full-jitter and equal-jitter backoff (default: 2)
   linearIncreaseSeconds?: number   // Optional: Factor by which delay increases for linear backoff
-  jitter?: number                  // Optional: jitter factor to randomize delay (default: 0.1)
+  jitter?: number                  // Optional: jitter factor to randomize delay (default: 0.1). Not applied to the jitter strategies, which are randomized already.
 }
 
-export function calculateBackoffSeconds(config: RetryConfiguration, retryCount: number): number {
+/**
+ * Calculates the delay before the next retry.
+ *
+ * The 'full-jitter', 'equal-jitter' and 'decorrelated-jitter' strategies follow the AWS Architecture Blog post
+ * "Exponential Backoff And Jitter". 'decorrelated-jitter' bases each delay on the previous delay, which defaults to
+ * delaySeconds for the first retry.
+ *
+ * A strategy function is called with the context and error of the failed attempt, so it needs the attempt. Jitter and
+ * maxDelaySeconds are applied on top of the delays from a strategy function or a schedule.
+ */
+export function calculateBackoffSeconds(config: RetryConfiguration, retryCount: number, attempt?: BackoffAttempt): number {
   const {
     retryStrategy = 'fixed',
     delaySeconds,
@@ -22,7 +52,17 @@ export function calculateBackoffSeconds(config: RetryConfiguration, retryCount:
 
   let delay
 
-  if (retryStrategy === 'fixed') {
+  if (typeof retryStrategy === 'function') {
+    if (attempt === undefined) {
+      throw new Error('A retry strategy function needs the failed attempt to calculate the delay')
+    }
+    delay = capDelay(retryStrategy(retryCount, attempt.context, attempt.lastError), maxDelaySeconds)
+  } else if (Array.isArray(retryStrategy)) {
+    if (retryStrategy.length === 0) {
+      throw new Error('Retry schedule must contain at least one delay')
+    }
+    delay = capDelay(retryStrategy[Math.min(retryCount, retryStrategy.length - 1)] as number, maxDelaySeconds)
+  } else if (retryStrategy === 'fixed') {
     delay = delaySeconds
   } else if (retryStrategy === 'exponential') {
     delay = delaySeconds * Math.pow(exponentialFactor, retryCount)
@@ -31,10 +71,24 @@ export function calculateBackoffSeconds(config: RetryConfiguration, retryCount:
     }
   } else if (retryStrategy === 'linear') {
     delay = delaySeconds + linearIncreaseSeconds * retryCount
+  } else if (retryStrategy === 'full-jitter') {
+    const cappedDelay = Math.min(delaySeconds * Math.pow(exponentialFactor, retryCount), maxDelaySeconds ?? Infinity)
+    return Math.max(0, Math.round(Math.random() * cappedDelay))
+  } else if (retryStrategy === 'equal-jitter') {
+    const cappedDelay = Math.min(delaySeconds * Math.pow(exponentialFactor, retryCount), maxDelaySeconds ?? Infinity)
+    return Math.max(0, Math.round(cappedDelay / 2 + Math.random() * cappedDelay / 2))
+  } else if (retryStrategy === 'decorrelated-jitter') {
+    const upperBound = Math.max(delaySeconds, (attempt?.previousDelaySeconds ?? delaySeconds) * 3)
+    delay = delaySeconds + Math.random() * (upperBound - delaySeconds)
+    return Math.max(0, Math.round(Math.min(delay, maxDelaySeconds ?? Infinity)))
   } else {
     throw new Error(`Unknown retry strategy: ${retryStrategy}`)
   }
 
+  if (!Number.isFinite(delay)) {
+    throw new Error(`Retry strategy returned an invalid delay: ${delay}`)
+  }
+
   if (jitter > 0) {
     // Add randomness to delay to avoid simultaneous retries
     const randomJitter = delay * jitter * (Math.random() * 2 - 1)
@@ -42,4 +96,8 @@ export function calculateBackoffSeconds(config: RetryConfiguration, retryCount:
   }
 
   return Math.max(0, Math.round(delay)) // Ensure delay is non-negative and rounded to the nearest millisecond
-}
\ No newline at end of file
+}
+
+function capDelay(delay: number, maxDelaySeconds: number | undefined): number {
+  return maxDelaySeconds === undefined ? delay : Math.min(delay, maxDelaySeconds)
+}
@@ -0,0 +1,92 @@
+/**
+ * The state of a circuit breaker.
+ *
+ * @property failureTimestamps - The times of the failures within the window, in milliseconds since the epoch.
+ * @property openUntil - Optional: The time until which the breaker is open, in milliseconds since the epoch. Once this
+ * time has passed the breaker is half-open until the next success or failure.
+ */
+export type CircuitBreakerState = {
+  failureTimestamps: number[]
+  openUntil?: number
+}
+
+/**
+ * Stores circuit breaker state. Implement this on top of a shared store, such as a cache or a database, to share a
+ * breaker between function instances. Without a shared store, each instance has its own breaker.
+ */
+export type CircuitBreakerStateStore = {
+  get(key: string): Promise<CircuitBreakerState | undefined>
+  set(key: string, state: CircuitBreakerState): Promise<void>
+}
+
+/**
+ * @property failureThreshold - The number of failures within the window after which the breaker opens.
+ * @property windowSeconds - The length of the window in which failures are counted.
+ * @property openSeconds - How long the breaker stays open before it lets messages through again (half-open). Paused
+ * messages are spread over the same period after that.
+ * @property stateStore - Optional: Where the state of the breaker is kept (default: in memory, per function instance).
+ */
+export type CircuitBreakerConfiguration = {
+  failureThreshold: number
+  windowSeconds: number
+  openSeconds: number
+  stateStore?: CircuitBreakerStateStore
+}
+
+export type CircuitBreaker = {
+  getOpenUntil(): Promise<Date | undefined>
+  getPausedUntil(): Promise<Date | undefined>
+  recordSuccess(): Promise<void>
+  recordFailure(): Promise<void>
+}
+
+export class InMemoryCircuitBreakerStateStore implements CircuitBreakerStateStore {
+  private readonly states = new Map<string, CircuitBreakerState>()
+
+  async get(key: string): Promise<CircuitBreakerState | undefined> {
+    return this.states.get(key)
+  }
+
+  async set(key: string, state: CircuitBreakerState): Promise<void> {
+    this.states.set(key, state)
+  }
+}
+
+/**
+ * Creates a circuit breaker that keeps its state under the given key. While half-open, messages are processed again:
+ * the first success closes the breaker and the first failure opens it again.
+ *
+ * Messages that arrive while the breaker is open are paused until a random time within openSeconds after the breaker
+ * becomes half-open, so that they do not all reach the handler at once. The first of them decides whether the breaker
+ * closes or opens again.
+ */
+export function createCircuitBreaker(key: string, configuration: CircuitBreakerConfiguration): CircuitBreaker {
+  const stateStore = configuration.stateStore ?? new InMemoryCircuitBreakerStateStore()
+  const getOpenUntil = async (): Promise<Date | undefined> => {
+    const state = await stateStore.get(key)
+    return state?.openUntil !== undefined && state.openUntil > Date.now() ? new Date(state.openUntil) : undefined
+  }
+  return {
+    getOpenUntil,
+    async getPausedUntil() {
+      const openUntil = await getOpenUntil()
+      return openUntil !== undefined ? new Date(openUntil.getTime() + Math.round(Math.random() * configuration.openSeconds * 1000)) : undefined
+    },
+    async recordSuccess() {
+      const state = await stateStore.get(key)
+      if (state !== undefined && (state.openUntil !== undefined || state.failureTimestamps.length > 0)) {
+        await stateStore.set(key, { failureTimestamps: [] })
+      }
+    },
+    async recordFailure() {
+      const now = Date.now()
+      const state = await stateStore.get(key)
+      const failureTimestamps = [...state?.failureTimestamps ?? [], now].filter(timestamp => timestamp > now - configuration.windowSeconds * 1000)
+      if (state?.openUntil !== undefined || failureTimestamps.length >= configuration.failureThreshold) {
+        await stateStore.set(key, { failureTimestamps: [], openUntil: now + configuration.openSeconds * 1000 })
+      } else {
+        await stateStore.set(key, { failureTimestamps })
+      }
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import type { ServiceBusReceivedMessage, ServiceBusReceiver } from '@azure/service-bus'
+
+export type DeadLetterReason = 'MaxRetriesReached' | 'MessageExpired' | 'RetryBudgetExceeded' | 'MessageTooLarge' | 'NonRetryable'
+
+/**
+ * @property reason - The dead-letter reason, used by DLQ tooling to group messages by failure cause.
+ * @property description - The dead-letter error description. Truncated to the Service Bus limit of 4096 characters.
+ * @property properties - Optional: application properties to add to the dead-lettered message.
+ */
+export type DeadLetterDetails = {
+  reason: DeadLetterReason
+  description: string
+  properties?: Record<string, string | number>
+}
+
+const MAX_DESCRIPTION_LENGTH = 4096
+
+/**
+ * Dead-letters a message that was received by the Azure Functions host, using only its lock token.
+ *
+ * The Functions host does not expose the received message itself, so it can not be settled through the receiver link
+ * that received it. The Service Bus SDK settles messages that were not received by one of its own links through the
+ * management link of the entity, which only requires the lock token.
+ */
+export async function deadLetterByLockToken(receiver: ServiceBusReceiver, lockToken: string, details: DeadLetterDetails): Promise<void> {
+  const message = { lockToken, body: undefined, delivery: {} } as unknown as ServiceBusReceivedMessage
+  await receiver.deadLetterMessage(message, {
+    ...details.properties,
+    deadLetterReason: details.reason,
+    deadLetterErrorDescription: details.description.slice(0, MAX_DESCRIPTION_LENGTH),
+  })
+}
@@ -0,0 +1,35 @@
+/**
+ * Remembers the messageIds of scheduled retries for a while, so that a retry that is scheduled again, for instance
+ * because the original message was redelivered after its lock was lost, can be dropped.
+ */
+export type DedupeCache = {
+  has(messageId: string): boolean
+  add(messageId: string): void
+}
+
+/**
+ * Creates a dedupe cache that keeps messageIds in memory for the given window. The cache is per function instance, so
+ * it only drops duplicates that are redelivered to the same instance. Use duplicate detection on the queue or topic to
+ * drop duplicates across instances.
+ */
+export function createDedupeCache(windowSeconds: number): DedupeCache {
+  const expiryTimes = new Map<string, number>()
+  const removeExpired = (): void => {
+    const now = Date.now()
+    for (const [messageId, expiryTime] of expiryTimes) {
+      if (expiryTime <= now) {
+        expiryTimes.delete(messageId)
+      }
+    }
+  }
+  return {
+    has(messageId) {
+      removeExpired()
+      return expiryTimes.has(messageId)
+    },
+    add(messageId) {
+      removeExpired()
+      expiryTimes.set(messageId, Date.now() + windowSeconds * 1000)
+    },
+  }
+}
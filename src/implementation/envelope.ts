@@ -0,0 +1,258 @@
+import { UnsupportedRetrySchemaVersionError } from '../util/error.js'
+
+/**
+ * The binding data of the original message, recorded when it is received for the first time.
+ *
+ * @property correlationId, subject, replyTo, partitionKey, sessionId, applicationProperties - Optional: The original
+ * values of these message properties, if they were set.
+ */
+export type ServiceBusBindingData = {
+  messageId?: string
+  enqueuedTimeUtc?: string
+  expiresAtUtc?: string
+  correlationId?: string
+  subject?: string
+  replyTo?: string
+  partitionKey?: string
+  sessionId?: string
+  applicationProperties?: Record<string, unknown>
+}
+
+/**
+ * A failed processing attempt of a message.
+ *
+ * @property name - The name of the error thrown by the handler.
+ * @property message - The message of the error thrown by the handler, truncated to 500 characters.
+ * @property timestamp - The time of the failure as ISO 8601 string.
+ */
+export type ServiceBusRetryFailure = {
+  name: string
+  message: string
+  timestamp: string
+}
+
+/**
+ * Represents a message that can be retried, extending a generic object type `T`.
+ *
+ * @template T - The base type of the message, which must extend `object`.
+ *
+ * @property $type - Optional: Marks the body as a retry wrapper. Wrappers written by earlier versions of the library do
+ * not have it.
+ * @property schemaVersion - Optional: The version of the envelope format. Wrappers without it are read as version 1.
+ * @property originalBindingData - The binding data associated with the Service Bus message.
+ * @property tryCount - The number of retry attempts made for this message.
+ * @property failureHistory - Optional: The failures of previous attempts, oldest first. Limited to the last 20 attempts.
+ * @property previousDelaySeconds - Optional: The delay in seconds with which this message was rescheduled.
+ * @property uncountedRetryCount - Optional: The number of reschedules that do not count toward maxRetries or the backoff:
+ * circuit breaker pauses, session hold-backs and retries on a retry-after hint that do not count.
+ * @property claimCheck - Optional: Reference to the message body in the retry state store. The message itself is left out when this is set.
+ */
+export type ServiceBusRetryMessageWrapper<T> = {
+  $type?: typeof RETRY_WRAPPER_TYPE
+  schemaVersion?: number
+  message: T,
+  originalBindingData: ServiceBusBindingData
+  publishCount: number
+  failureHistory?: ServiceBusRetryFailure[]
+  previousDelaySeconds?: number
+  uncountedRetryCount?: number
+  claimCheck?: string
+}
+
+/**
+ * The retry information of a single message.
+ *
+ * @property originalBindingData - The binding data of the message as it was originally received.
+ * @property publishCount - The number of times the message has been published, including the original publish.
+ * @property failureHistory - The failures of previous attempts, oldest first.
+ * @property previousDelaySeconds - Optional: The delay in seconds with which the message was last rescheduled.
+ * @property uncountedRetryCount - Optional: The number of retries that do not count toward maxRetries.
+ * @property claimCheck - Optional: Reference to the message body in the retry state store.
+ */
+export type ServiceBusRetryMetadata = {
+  originalBindingData: ServiceBusBindingData
+  publishCount: number
+  failureHistory: ServiceBusRetryFailure[]
+  previousDelaySeconds?: number
+  uncountedRetryCount?: number
+  claimCheck?: string
+}
+
+/**
+ * How retry metadata is carried on rescheduled messages.
+ * 'body' wraps the message body in a ServiceBusRetryMessageWrapper.
+ * 'applicationProperties' keeps the message body and properties as they are, and adds the retry metadata as application properties.
+ */
+export type RetryEnvelope = 'body' | 'applicationProperties'
+
+/**
+ * A received message with its retry metadata.
+ */
+export type DecodedRetryEnvelope<T> = {
+  message: T
+  retryMetadata: ServiceBusRetryMetadata
+}
+
+export const RETRY_WRAPPER_TYPE = 'servicebus-retry-wrapper'
+
+/**
+ * The version of the envelope format written by this version of the library. Readers ignore fields they do not know,
+ * so adding a field does not change the version. The version is raised when a field changes meaning or is removed,
+ * and a decoder for each earlier version is kept, so that retries in flight during a deployment can still be read.
+ */
+export const RETRY_SCHEMA_VERSION = 1
+
+export const RETRY_SCHEMA_VERSION_PROPERTY = 'x-retry-schema-version'
+export const RETRY_PUBLISH_COUNT_PROPERTY = 'x-retry-publish-count'
+export const RETRY_ORIGINAL_MESSAGE_ID_PROPERTY = 'x-retry-original-message-id'
+export const RETRY_ORIGINAL_ENQUEUED_TIME_PROPERTY = 'x-retry-original-enqueued-time-utc'
+export const RETRY_ORIGINAL_EXPIRES_AT_PROPERTY = 'x-retry-original-expires-at-utc'
+export const RETRY_ORIGINAL_BINDING_DATA_PROPERTY = 'x-retry-original-binding-data'
+export const RETRY_FAILURE_HISTORY_PROPERTY = 'x-retry-failure-history'
+export const RETRY_PREVIOUS_DELAY_PROPERTY = 'x-retry-previous-delay-seconds'
+export const RETRY_UNCOUNTED_RETRY_COUNT_PROPERTY = 'x-retry-uncounted-retry-count'
+export const RETRY_CLAIM_CHECK_PROPERTY = 'x-retry-claim-check'
+
+const RETRY_WRAPPER_KEYS = new Set(['$type', 'schemaVersion', 'message', 'originalBindingData', 'publishCount', 'failureHistory', 'previousDelaySeconds', 'uncountedRetryCount', 'claimCheck'])
+
+/**
+ * Returns whether a message body is a retry wrapper. Wrappers without $type, written by earlier versions of the
+ * library, are only recognized by their exact shape, so that a message with a publishCount field of its own is not
+ * mistaken for a wrapper.
+ */
+export function isRetryMessageWrapper<T>(message: T | ServiceBusRetryMessageWrapper<T>): message is ServiceBusRetryMessageWrapper<T> {
+  if (typeof message !== 'object' || message === null) {
+    return false
+  }
+  const candidate = message as Record<string, unknown>
+  if (candidate.$type !== undefined) {
+    return candidate.$type === RETRY_WRAPPER_TYPE
+  }
+  return typeof candidate.publishCount === 'number'
+    && typeof candidate.originalBindingData === 'object' && candidate.originalBindingData !== null
+    && ('message' in candidate || typeof candidate.claimCheck === 'string')
+    && Object.keys(candidate).every(key => RETRY_WRAPPER_KEYS.has(key))
+}
+
+/**
+ * Encodes a message and its retry metadata as a body wrapper, for the 'body' envelope.
+ */
+export function encodeRetryMessageWrapper<T>(message: T, metadata: ServiceBusRetryMetadata): ServiceBusRetryMessageWrapper<T> {
+  return { $type: RETRY_WRAPPER_TYPE, schemaVersion: RETRY_SCHEMA_VERSION, message, ...metadata }
+}
+
+/**
+ * Encodes retry metadata as application properties, for the 'applicationProperties' envelope.
+ * Binding data that is not known is left out.
+ */
+export function encodeRetryProperties(metadata: ServiceBusRetryMetadata): Record<string, string | number> {
+  const { originalBindingData } = metadata
+  const properties: Record<string, string | number> = {
+    [RETRY_SCHEMA_VERSION_PROPERTY]: RETRY_SCHEMA_VERSION,
+    [RETRY_PUBLISH_COUNT_PROPERTY]: metadata.publishCount,
+    [RETRY_FAILURE_HISTORY_PROPERTY]: JSON.stringify(metadata.failureHistory),
+  }
+  if (originalBindingData.messageId !== undefined) {
+    properties[RETRY_ORIGINAL_MESSAGE_ID_PROPERTY] = originalBindingData.messageId
+  }
+  if (originalBindingData.enqueuedTimeUtc !== undefined) {
+    properties[RETRY_ORIGINAL_ENQUEUED_TIME_PROPERTY] = originalBindingData.enqueuedTimeUtc
+  }
+  if (originalBindingData.expiresAtUtc !== undefined) {
+    properties[RETRY_ORIGINAL_EXPIRES_AT_PROPERTY] = originalBindingData.expiresAtUtc
+  }
+  // The separate properties above only hold the binding data that the retry flow reads, this one holds all of it
+  if (Object.values(originalBindingData).some(value => value !== undefined)) {
+    properties[RETRY_ORIGINAL_BINDING_DATA_PROPERTY] = JSON.stringify(originalBindingData)
+  }
+  if (metadata.previousDelaySeconds !== undefined) {
+    properties[RETRY_PREVIOUS_DELAY_PROPERTY] = metadata.previousDelaySeconds
+  }
+  if (metadata.uncountedRetryCount !== undefined) {
+    properties[RETRY_UNCOUNTED_RETRY_COUNT_PROPERTY] = metadata.uncountedRetryCount
+  }
+  if (metadata.claimCheck !== undefined) {
+    properties[RETRY_CLAIM_CHECK_PROPERTY] = metadata.claimCheck
+  }
+  return properties
+}
+
+/**
+ * Decodes the retry envelope of a received message. Retry metadata is read from the application properties first, and
+ * from the body wrapper second, so that messages rescheduled with either envelope are accepted. Returns undefined when
+ * the message is not a retry. Throws an UnsupportedRetrySchemaVersionError when the envelope was written with a schema
+ * version that can not be read.
+ */
+export function decodeRetryEnvelope<T>(body: T | ServiceBusRetryMessageWrapper<T>, applicationProperties?: Record<string, unknown>): DecodedRetryEnvelope<T> | undefined {
+  const propertiesMetadata = decodeRetryProperties(applicationProperties)
+  if (propertiesMetadata !== undefined) {
+    return { message: body as T, retryMetadata: propertiesMetadata }
+  }
+  if (isRetryMessageWrapper(body)) {
+    return getDecoder(body.schemaVersion).decodeWrapper(body)
+  }
+  return undefined
+}
+
+/**
+ * Decodes retry metadata from the application properties of a message. Returns undefined when the message was not
+ * rescheduled with the 'applicationProperties' envelope.
+ */
+export function decodeRetryProperties(applicationProperties: Record<string, unknown> | undefined): ServiceBusRetryMetadata | undefined {
+  if (applicationProperties?.[RETRY_PUBLISH_COUNT_PROPERTY] === undefined) {
+    return undefined
+  }
+  const schemaVersion = applicationProperties[RETRY_SCHEMA_VERSION_PROPERTY]
+  return getDecoder(schemaVersion === undefined ? undefined : Number(schemaVersion)).decodeProperties(applicationProperties)
+}
+
+type RetryEnvelopeDecoder = {
+  decodeWrapper<T>(wrapper: ServiceBusRetryMessageWrapper<T>): DecodedRetryEnvelope<T>
+  decodeProperties(applicationProperties: Record<string, unknown>): ServiceBusRetryMetadata
+}
+
+const decodeWrapperV1 = <T>(wrapper: ServiceBusRetryMessageWrapper<T>): DecodedRetryEnvelope<T> => ({
+  message: wrapper.message,
+  retryMetadata: {
+    originalBindingData: wrapper.originalBindingData,
+    publishCount: wrapper.publishCount,
+    failureHistory: wrapper.failureHistory ?? [],
+    previousDelaySeconds: wrapper.previousDelaySeconds,
+    uncountedRetryCount: wrapper.uncountedRetryCount,
+    claimCheck: wrapper.claimCheck,
+  },
+})
+
+const decodePropertiesV1 = (applicationProperties: Record<string, unknown>): ServiceBusRetryMetadata => {
+  const failureHistory = applicationProperties[RETRY_FAILURE_HISTORY_PROPERTY]
+  const previousDelaySeconds = applicationProperties[RETRY_PREVIOUS_DELAY_PROPERTY]
+  const uncountedRetryCount = applicationProperties[RETRY_UNCOUNTED_RETRY_COUNT_PROPERTY]
+  const originalBindingData = applicationProperties[RETRY_ORIGINAL_BINDING_DATA_PROPERTY]
+  return {
+    publishCount: Number(applicationProperties[RETRY_PUBLISH_COUNT_PROPERTY]),
+    // Envelopes written by earlier versions of the library only carry the separate binding data properties
+    originalBindingData: typeof originalBindingData === 'string' ? JSON.parse(originalBindingData) as ServiceBusBindingData : {
+      messageId: applicationProperties[RETRY_ORIGINAL_MESSAGE_ID_PROPERTY] as string | undefined,
+      enqueuedTimeUtc: applicationProperties[RETRY_ORIGINAL_ENQUEUED_TIME_PROPERTY] as string | undefined,
+      expiresAtUtc: applicationProperties[RETRY_ORIGINAL_EXPIRES_AT_PROPERTY] as string | undefined,
+    },
+    failureHistory: typeof failureHistory === 'string' ? JSON.parse(failureHistory) as ServiceBusRetryFailure[] : [],
+    previousDelaySeconds: previousDelaySeconds === undefined ? undefined : Number(previousDelaySeconds),
+    uncountedRetryCount: uncountedRetryCount === undefined ? undefined : Number(uncountedRetryCount),
+    claimCheck: applicationProperties[RETRY_CLAIM_CHECK_PROPERTY] as string | undefined,
+  }
+}
+
+// The decoders by schema version. Add a decoder for each new version, and keep the decoders of earlier versions
+const retryEnvelopeDecoders = new Map<number, RetryEnvelopeDecoder>([
+  [1, { decodeWrapper: decodeWrapperV1, decodeProperties: decodePropertiesV1 }],
+])
+
+// Envelopes written before the schema version was introduced are version 1
+function getDecoder(schemaVersion: number | undefined): RetryEnvelopeDecoder {
+  const decoder = retryEnvelopeDecoders.get(schemaVersion ?? 1)
+  if (decoder === undefined) {
+    throw new UnsupportedRetrySchemaVersionError(schemaVersion as number, [...retryEnvelopeDecoders.keys()])
+  }
+  return decoder
+}
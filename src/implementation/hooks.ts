@@ -0,0 +1,76 @@
+import type { InvocationContext } from '@azure/functions'
+import type { DeadLetterReason } from './deadLetter.js'
+import { logEvent, type LoggingConfiguration } from './logger.js'
+import type { SequenceNumber } from './scheduledRetryIndex.js'
+
+/**
+ * @property message - The unwrapped message.
+ * @property context - The invocation context of the handler. For batch triggers, the context of the whole batch.
+ */
+export type RetryHookEvent<T, C> = {
+  message: T
+  context: C
+}
+
+/**
+ * @property error - The error thrown by the handler. Undefined when the message was paused without calling the handler,
+ * for instance because the circuit breaker is open.
+ * @property scheduledTime - The time the retry is scheduled.
+ * @property sequenceNumber - The sequence number of the scheduled message.
+ * @property publishCount - The publish count of the scheduled message.
+ */
+export type RetryScheduledEvent<T, C> = RetryHookEvent<T, C> & {
+  error: unknown
+  scheduledTime: Date
+  sequenceNumber?: SequenceNumber
+  publishCount: number
+}
+
+/**
+ * @property error - The error that ended the retries, such as a MaxRetriesReachedError, with the last handler error as
+ * cause.
+ * @property reason - Why the message can not be retried anymore.
+ */
+export type RetryExhaustedEvent<T, C> = RetryHookEvent<T, C> & {
+  error: unknown
+  reason: Exclude<DeadLetterReason, 'MessageExpired'>
+}
+
+/**
+ * @property error - The MessageExpiredError, with the last handler error as cause.
+ */
+export type RetryExpiredEvent<T, C> = RetryHookEvent<T, C> & {
+  error: unknown
+}
+
+/**
+ * @property publishCount - The publish count of the message that succeeded.
+ */
+export type SuccessAfterRetryEvent<T, C> = RetryHookEvent<T, C> & {
+  publishCount: number
+}
+
+/**
+ * Hooks that are called at the steps of the retry flow. Hooks are awaited, and errors thrown by a hook are logged as a
+ * warning without affecting the retry flow.
+ *
+ * @property onRetryScheduled - Optional: Called after a message is rescheduled.
+ * @property onExhausted - Optional: Called when a message can not be retried anymore, after it was dead-lettered or
+ * forwarded, or before the error is thrown when onExhausted is 'throw'.
+ * @property onExpired - Optional: Called instead of onExhausted when a message expired before it could be retried.
+ * @property onSuccessAfterRetry - Optional: Called when a rescheduled message is processed successfully.
+ */
+export type RetryLifecycleHooks<T, C> = {
+  onRetryScheduled?(event: RetryScheduledEvent<T, C>): Promise<void> | void
+  onExhausted?(event: RetryExhaustedEvent<T, C>): Promise<void> | void
+  onExpired?(event: RetryExpiredEvent<T, C>): Promise<void> | void
+  onSuccessAfterRetry?(event: SuccessAfterRetryEvent<T, C>): Promise<void> | void
+}
+
+export async function runHook(loggingConfiguration: LoggingConfiguration, context: InvocationContext, hookName: keyof RetryLifecycleHooks<unknown, unknown>, hook: () => Promise<void> | void): Promise<void> {
+  try {
+    await hook()
+  } catch (error) {
+    logEvent(loggingConfiguration, 'warn', { event: 'hookFailed', message: `${hookName} hook failed`, error: String(error) }, context)
+  }
+}
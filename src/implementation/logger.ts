@@ -0,0 +1,94 @@
+import type { InvocationContext } from '@azure/functions'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type RetryLogEventType =
+  | 'triggerRegistered'
+  | 'messageReceived'
+  | 'batchReceived'
+  | 'messageIgnored'
+  | 'inProcessRetry'
+  | 'inProcessRetrySkipped'
+  | 'retryAfterHint'
+  | 'finalAttemptScheduled'
+  | 'retryScheduled'
+  | 'retryDuplicateDropped'
+  | 'messagePaused'
+  | 'claimCheckStored'
+  | 'messageTooLarge'
+  | 'lockLost'
+  | 'nonRetryable'
+  | 'maxRetriesReached'
+  | 'retryBudgetExceeded'
+  | 'messageDeadLettered'
+  | 'messageForwarded'
+  | 'deadLetterFailed'
+  | 'batchFailureIgnored'
+  | 'hookFailed'
+
+/**
+ * A structured log event of the retry flow. Only the fields that apply to the event are set.
+ *
+ * @property event - The type of the event.
+ * @property message - A human readable description of the event.
+ * @property functionName - The name of the function, when the event happens in an invocation.
+ * @property originalMessageId - The messageId of the original message.
+ * @property currentMessageId - The messageId of the message being processed, which is a retry after the first attempt.
+ * @property publishCount - The number of times the message has been published, including the original message.
+ * @property delaySeconds - The delay before the next attempt.
+ * @property scheduledTime - The time the next attempt is scheduled, as an ISO 8601 string.
+ * @property reason - Why a message is paused, ignored or can not be retried anymore.
+ * @property error - The error that caused the event, as a string.
+ */
+export type RetryLogEvent = {
+  event: RetryLogEventType
+  message: string
+  functionName?: string
+  originalMessageId?: string
+  currentMessageId?: string
+  publishCount?: number
+  delaySeconds?: number
+  scheduledTime?: string
+  reason?: string
+  error?: string
+}
+
+/**
+ * Receives the log events of the library. The invocation context is passed for events that happen in an invocation.
+ */
+export type RetryLogger = {
+  log(level: LogLevel, event: RetryLogEvent, context?: InvocationContext): void
+}
+
+/**
+ * @property logger - Optional: Where log events are written (default: the invocation context, or the console outside
+ * of invocations, as `SRBLIB: ` followed by the event as JSON).
+ * @property logLevel - Optional: The minimum level of events that are logged, or 'none' to log nothing (default:
+ * 'debug').
+ */
+export type LoggingConfiguration = {
+  logger?: RetryLogger
+  logLevel?: LogLevel | 'none'
+}
+
+const LOG_LEVELS: (LogLevel | 'none')[] = ['debug', 'info', 'warn', 'error', 'none']
+
+export const defaultLogger: RetryLogger = {
+  log(level, event, context) {
+    const line = `SRBLIB: ${JSON.stringify(event)}`
+    if (context !== undefined) {
+      context[level](line)
+    } else {
+      console[level](line)
+    }
+  },
+}
+
+export function logEvent(configuration: LoggingConfiguration, level: LogLevel, event: RetryLogEvent, context?: InvocationContext): void {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(configuration.logLevel ?? 'debug')) {
+    return
+  }
+  const functionName = context?.functionName
+  const logger = configuration.logger ?? defaultLogger
+  logger.log(level, functionName !== undefined ? { ...event, functionName } : event, context)
+}
@@ -0,0 +1,88 @@
+import type { ServiceBusMessage } from '@azure/service-bus'
+
+/**
+ * The broker and application properties of a received message, as far as they are exposed in the trigger metadata.
+ */
+export type ServiceBusMessageProperties = Pick<ServiceBusMessage, 'messageId' | 'contentType' | PreservableMessageProperty>
+
+/**
+ * The message properties that are copied onto rescheduled messages.
+ */
+export type PreservableMessageProperty = 'correlationId' | 'subject' | 'replyTo' | 'replyToSessionId' | 'partitionKey' | 'sessionId' | 'to' | 'applicationProperties'
+
+/**
+ * Allow-list or deny-list of the message properties that are copied onto rescheduled messages.
+ */
+export type PreserveMessagePropertiesConfiguration = { include: PreservableMessageProperty[] } | { exclude: PreservableMessageProperty[] }
+
+const PRESERVABLE_MESSAGE_PROPERTIES: PreservableMessageProperty[] = ['correlationId', 'subject', 'replyTo', 'replyToSessionId', 'partitionKey', 'sessionId', 'to', 'applicationProperties']
+
+/**
+ * Prefix of the application properties set by this library. These are not copied when properties are forwarded.
+ */
+export const RETRY_PROPERTY_PREFIX = 'x-retry-'
+
+/**
+ * Reads a value from the trigger metadata. Batch triggers (cardinality = many) expose each value as an array with one
+ * entry per message, with the key suffixed with 'Array'. Pass the index of the message in the batch to read those.
+ */
+export function getTriggerMetadataValue(triggerMetadata: Record<string, unknown> | undefined, key: string, index?: number): unknown {
+  if (index === undefined) {
+    return triggerMetadata?.[key]
+  }
+  const values = triggerMetadata?.[`${key}Array`] as unknown[] | undefined
+  return values?.[index]
+}
+
+export function getMessageProperties(triggerMetadata: Record<string, unknown> | undefined, index?: number): ServiceBusMessageProperties {
+  const applicationProperties = getTriggerMetadataValue(triggerMetadata, 'applicationProperties', index) as ServiceBusMessage['applicationProperties']
+  return {
+    messageId: getTriggerMetadataValue(triggerMetadata, 'messageId', index) as string | undefined,
+    correlationId: getTriggerMetadataValue(triggerMetadata, 'correlationId', index) as string | undefined,
+    subject: (getTriggerMetadataValue(triggerMetadata, 'subject', index) ?? getTriggerMetadataValue(triggerMetadata, 'label', index)) as string | undefined,
+    contentType: getTriggerMetadataValue(triggerMetadata, 'contentType', index) as string | undefined,
+    replyTo: getTriggerMetadataValue(triggerMetadata, 'replyTo', index) as string | undefined,
+    replyToSessionId: getTriggerMetadataValue(triggerMetadata, 'replyToSessionId', index) as string | undefined,
+    partitionKey: getTriggerMetadataValue(triggerMetadata, 'partitionKey', index) as string | undefined,
+    sessionId: getTriggerMetadataValue(triggerMetadata, 'sessionId', index) as string | undefined,
+    to: getTriggerMetadataValue(triggerMetadata, 'to', index) as string | undefined,
+    applicationProperties: withoutRetryProperties(applicationProperties),
+  }
+}
+
+/**
+ * Selects the properties to copy onto a rescheduled message. All preservable properties are copied by default.
+ * Properties without a value are left out.
+ */
+export function selectPreservedProperties(properties: ServiceBusMessageProperties, configuration?: PreserveMessagePropertiesConfiguration): Pick<ServiceBusMessage, PreservableMessageProperty> {
+  const selected = configuration === undefined
+    ? PRESERVABLE_MESSAGE_PROPERTIES
+    : 'include' in configuration
+      ? PRESERVABLE_MESSAGE_PROPERTIES.filter(property => configuration.include.includes(property))
+      : PRESERVABLE_MESSAGE_PROPERTIES.filter(property => !configuration.exclude.includes(property))
+  return Object.fromEntries(selected
+    .filter(property => properties[property] !== undefined)
+    .map(property => [property, properties[property]]))
+}
+
+function withoutRetryProperties(applicationProperties: ServiceBusMessage['applicationProperties']): ServiceBusMessage['applicationProperties'] {
+  if (applicationProperties === undefined) {
+    return undefined
+  }
+  return Object.fromEntries(Object.entries(applicationProperties).filter(([key]) => !key.startsWith(RETRY_PROPERTY_PREFIX)))
+}
+
+/**
+ * Estimates the size of a message as it is sent to Service Bus: the serialized body plus the message and application
+ * properties. The AMQP encoding adds some overhead on top of this, so keep some headroom below the tier limit.
+ */
+export function estimateMessageSize(message: ServiceBusMessage): number {
+  const { body, applicationProperties, ...properties } = message
+  const bodySize = Buffer.isBuffer(body) ? body.length : Buffer.byteLength(JSON.stringify(body) ?? '')
+  const propertiesSize = Object.values(properties)
+    .filter(value => typeof value === 'string')
+    .reduce((size, value) => size + Buffer.byteLength(value), 0)
+  const applicationPropertiesSize = Object.entries(applicationProperties ?? {})
+    .reduce((size, [key, value]) => size + Buffer.byteLength(key) + Buffer.byteLength(String(value)), 0)
+  return bodySize + propertiesSize + applicationPropertiesSize
+}
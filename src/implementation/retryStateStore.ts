@@ -0,0 +1,71 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+/**
+ * Stores the bodies of rescheduled messages, so that the rescheduled message only carries a claim-check reference
+ * instead of the whole body. Bodies are stored when a message is rescheduled for the first time, and deleted once the
+ * message completes or is exhausted.
+ */
+export type RetryStateStore = {
+  save(key: string, body: unknown): Promise<void>
+  load(key: string): Promise<unknown>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Keeps message bodies in memory. Only suitable for tests and for single instance apps, as the bodies are lost when
+ * the function instance stops and are not visible to other instances.
+ */
+export class InMemoryRetryStateStore implements RetryStateStore {
+  private readonly bodies = new Map<string, unknown>()
+
+  async save(key: string, body: unknown): Promise<void> {
+    this.bodies.set(key, body)
+  }
+
+  async load(key: string): Promise<unknown> {
+    return this.bodies.get(key)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.bodies.delete(key)
+  }
+}
+
+const CLAIM_CHECK_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Keeps message bodies as JSON files in a directory, for instance on a file share mounted by all function instances.
+ * Only claim-check references generated by this library are accepted as key, so a message can not point outside the
+ * directory.
+ */
+export class FileSystemRetryStateStore implements RetryStateStore {
+  constructor(private readonly directory: string) {}
+
+  async save(key: string, body: unknown): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+    await writeFile(this.getPath(key), JSON.stringify(body))
+  }
+
+  async load(key: string): Promise<unknown> {
+    try {
+      return JSON.parse(await readFile(this.getPath(key), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.getPath(key), { force: true })
+  }
+
+  private getPath(key: string): string {
+    if (!CLAIM_CHECK_PATTERN.test(key)) {
+      throw new Error(`Invalid claim-check reference: ${key}`)
+    }
+    return join(this.directory, `${key}.json`)
+  }
+}
@@ -0,0 +1,93 @@
+import type { ServiceBusSender } from '@azure/service-bus'
+
+/**
+ * A sequence number of a scheduled message, as returned by `ServiceBusSender.scheduleMessages`.
+ */
+export type SequenceNumber = Awaited<ReturnType<ServiceBusSender['scheduleMessages']>>[number]
+
+/**
+ * A retry that is scheduled and not yet received.
+ *
+ * @property functionName - The name of the function that scheduled the retry.
+ * @property sequenceNumber - The sequence number of the scheduled message.
+ * @property scheduledTime - The time the message is scheduled for. Once it has passed, the retry is received soon and
+ * can not be cancelled anymore.
+ */
+export type ScheduledRetry = {
+  functionName: string
+  sequenceNumber: SequenceNumber
+  scheduledTime: Date
+}
+
+/**
+ * Keeps track of the scheduled retries of each original message, so that they can be cancelled with
+ * `cancelScheduledRetries`. Implement this on top of a shared store, such as a cache or a database, to cancel retries
+ * scheduled by other function instances. Sequence numbers are `Long` values; store them with `toString()` and restore
+ * them with `Long.fromString()`.
+ */
+export type ScheduledRetryIndex = {
+  get(originalMessageId: string): Promise<ScheduledRetry[] | undefined>
+  set(originalMessageId: string, retries: ScheduledRetry[]): Promise<void>
+  delete(originalMessageId: string): Promise<void>
+}
+
+/**
+ * Keeps scheduled retries in memory. Only retries scheduled by this function instance can be cancelled.
+ *
+ * Retries that are received by another instance are never removed from this index, so retries are evicted once their
+ * scheduled time plus the grace period has passed.
+ */
+export class InMemoryScheduledRetryIndex implements ScheduledRetryIndex {
+  private readonly retries = new Map<string, ScheduledRetry[]>()
+
+  constructor(private readonly gracePeriodSeconds = 300) {}
+
+  async get(originalMessageId: string): Promise<ScheduledRetry[] | undefined> {
+    this.removeExpired()
+    return this.retries.get(originalMessageId)
+  }
+
+  async set(originalMessageId: string, retries: ScheduledRetry[]): Promise<void> {
+    this.removeExpired()
+    this.retries.set(originalMessageId, retries)
+  }
+
+  async delete(originalMessageId: string): Promise<void> {
+    this.retries.delete(originalMessageId)
+  }
+
+  private removeExpired(): void {
+    const expiredBefore = Date.now() - this.gracePeriodSeconds * 1000
+    for (const [originalMessageId, retries] of this.retries) {
+      const pending = retries.filter(retry => retry.scheduledTime.getTime() > expiredBefore)
+      if (pending.length === 0) {
+        this.retries.delete(originalMessageId)
+      } else if (pending.length < retries.length) {
+        this.retries.set(originalMessageId, pending)
+      }
+    }
+  }
+}
+
+export async function addScheduledRetry(index: ScheduledRetryIndex, originalMessageId: string, retry: ScheduledRetry): Promise<void> {
+  const retries = await index.get(originalMessageId) ?? []
+  await index.set(originalMessageId, [...retries, retry])
+}
+
+/**
+ * Removes the scheduled retries of an original message that were scheduled by the given function, and returns them.
+ */
+export async function removeScheduledRetries(index: ScheduledRetryIndex, originalMessageId: string, functionName: string): Promise<ScheduledRetry[]> {
+  const retries = await index.get(originalMessageId) ?? []
+  const removed = retries.filter(retry => retry.functionName === functionName)
+  if (removed.length === 0) {
+    return []
+  }
+  const remaining = retries.filter(retry => retry.functionName !== functionName)
+  if (remaining.length > 0) {
+    await index.set(originalMessageId, remaining)
+  } else {
+    await index.delete(originalMessageId)
+  }
+  return removed
+}
@@ -1,154 +1,1262 @@
-import { app, type FunctionHandler, type FunctionResult, type InvocationContext, type ServiceBusQueueFunctionOptions } from '@azure/functions'
-import { type ServiceBusMessage, type ServiceBusSender, ServiceBusClient } from  '@azure/service-bus'
-import { MaxRetriesReachedError, MessageExpiredError } from '../util/error.js'
+import { app, type FunctionHandler, type FunctionResult, type InvocationContext, type ServiceBusQueueFunctionOptions, type ServiceBusTopicFunctionOptions } from '@azure/functions'
+import { type ServiceBusMessage, type ServiceBusReceiver, type ServiceBusSender, ServiceBusClient } from  '@azure/service-bus'
+import { BatchProcessingError, MaxRetriesReachedError, MessageExpiredError, MessageLockLostError, MessageValidationError, NonRetryableError, RetryAfterError, RetryBudgetExceededError, RetryMessageTooLargeError } from '../util/error.js'
 import { calculateBackoffSeconds, type RetryConfiguration } from './backoff.js'
+import { createCircuitBreaker, type CircuitBreaker, type CircuitBreakerConfiguration } from './circuitBreaker.js'
+import { createDedupeCache, type DedupeCache } from './dedupeCache.js'
+import { runHook, type RetryLifecycleHooks } from './hooks.js'
+import { logEvent, type LoggingConfiguration, type RetryLogEvent } from './logger.js'
+import { addScheduledRetry, InMemoryScheduledRetryIndex, removeScheduledRetries, type ScheduledRetryIndex, type SequenceNumber } from './scheduledRetryIndex.js'
+import { getRetryTelemetry, type RetryTelemetry } from './telemetry.js'
+import { createSessionHoldBack, type SessionHoldBack, type SessionRetryConfiguration } from './sessionHoldBack.js'
+import { deadLetterByLockToken, type DeadLetterReason } from './deadLetter.js'
+import { estimateMessageSize, getMessageProperties, getTriggerMetadataValue, selectPreservedProperties, type PreserveMessagePropertiesConfiguration, type ServiceBusMessageProperties } from './messageProperties.js'
+import { decodeRetryEnvelope, encodeRetryMessageWrapper, encodeRetryProperties, type RetryEnvelope, type ServiceBusBindingData, type ServiceBusRetryFailure, type ServiceBusRetryMessageWrapper, type ServiceBusRetryMetadata } from './envelope.js'
+import type { RetryStateStore } from './retryStateStore.js'
 import { fromZonedTime } from 'date-fns-tz'
+import { createHash, randomUUID } from 'node:crypto'
 
 
 /**
  * Represents the configuration for retrying operations with Service Bus.
  *
  * @property maxRetries - The maximum number of retry attempts.
- * @property retryStrategy - The type of backoff strategy to use: 'fixed', 'linear' or 'exponential' (default: 'fixed').
+ * @property retryStrategy - The type of backoff strategy to use: 'fixed', 'linear', 'exponential', 'full-jitter', 'equal-jitter' or 'decorrelated-jitter', a RetryStrategyFunction or a schedule of delays in seconds (default: 'fixed').
  * @property delaySeconds - The initial delay in milliseconds between retries (for both strategies).
- * @property maxDelaySeconds - Optional: The maximum delay for exponential backoff (to avoid too long waits).
+ * @property maxDelaySeconds - Optional: The maximum delay for exponential, jitter, function and schedule backoff, and for retry-after hints (to avoid too long waits).
  * @property exponentialFactor - Optional: The factor by which the delay increases for exponential backoff (default: 2).
  * @property linearIncreaseSeconds - Optional: The factor by which the delay increases for linear backoff.
  * @property jitter - Optional: The jitter factor to randomize the delay (default: 0.1).
  * @property sendConnectionString - The connection string used to send messages to the Service Bus.
  * @property preserveExpiresAt - Optional: Whether to preserve the original expiresAtUtc value when rescheduling messages (default: true). If true, the expiresAtUtc value from the original message will be used to calculate the timeToLive for retried messages, ensuring that they expire at the same time as the original message.
+ * @property shouldRetry - Optional: Predicate that decides whether a handler error should be retried (default: all errors except NonRetryableError). Messages that fail with a non-retryable error are not rescheduled.
+ * @property onExhausted - Optional: What to do with a message that can not be retried anymore because max retries are reached, it has expired or the error is not retryable (default: 'throw'). 'throw' throws an error so that Service Bus abandons the message, 'deadLetter' dead-letters the message directly with a reason, description and the retry history. `{ forwardTo }` forwards the unwrapped message to a "parking lot" queue or topic with a retry summary, and completes it. Batch triggers dead-letter unless forwardTo is set.
+ * @property retryQueueName - Optional: Name of a dedicated queue for rescheduled messages. A second trigger, named `<name>-retry`, is registered on this queue that runs the same handler. The main queue or subscription then only carries original, unwrapped messages.
+ * @property envelope - Optional: How retry metadata is carried on rescheduled messages (default: 'body'). 'body' wraps the message in a ServiceBusRetryMessageWrapper. 'applicationProperties' keeps the original body, content type, subject, correlationId and application properties, and adds the retry metadata as application properties. Messages in either format are always accepted.
+ * @property preserveMessageProperties - Optional: Allow-list (`include`) or deny-list (`exclude`) of the message properties that are copied onto rescheduled messages: correlationId, subject, replyTo, replyToSessionId, partitionKey, sessionId, to and applicationProperties (default: all).
+ * @property getRetryAfter - Optional: Extracts a retry-after hint from a handler error, as a number of seconds or a point in time. The hint replaces the delay from the retry strategy. RetryAfterError is always honored.
+ * @property retryAfterCountsTowardMaxRetries - Optional: Whether retries rescheduled on a retry-after hint count toward maxRetries (default: true).
+ * @property maxRetryDurationSeconds - Optional: Time budget for retries in seconds, measured from the enqueued time of the original message. A RetryBudgetExceededError is thrown instead of rescheduling a message after the budget.
+ * @property finalAttemptAtDeadline - Optional: Whether to schedule one last attempt exactly at the end of maxRetryDurationSeconds when the next retry would fall after it (default: false).
+ * @property inProcessRetries - Optional: Re-invokes the handler within the same invocation a few times before the message is rescheduled. Only for single message triggers.
+ * @property stateStore - Optional: Store for the bodies of rescheduled messages. Rescheduled messages then only carry a claim-check reference to the body, which is deleted once the message completes or is forwarded to a parking lot. Dead-lettered messages keep their stored body. See onMessageTooLarge to only store large bodies.
+ * @property maxMessageSizeBytes - Optional: Maximum estimated size of a rescheduled message. Larger messages are not scheduled, see onMessageTooLarge. Use 262144 (256 KB) for the standard tier.
+ * @property onMessageTooLarge - Optional: What to do when a rescheduled message is larger than maxMessageSizeBytes (default: 'throw'). 'throw' throws a RetryMessageTooLargeError, which is handled like other exhausted messages according to onExhausted. 'claimCheck' only stores bodies of messages that are too large in the stateStore, so those are rescheduled with the retry metadata only. Requires stateStore, registering the function throws without it.
+ * @property lockDurationSeconds - Optional: How long the message lock is held for an invocation: the lock duration of the queue or subscription, or the maxAutoLockRenewalDuration of the host when locks are renewed. When set, a message is not rescheduled once its lock is lost or about to expire, as the redelivered message will be retried instead. A MessageLockLostError is thrown.
+ * @property dedupeWindowSeconds - Optional: How long the messageIds of scheduled retries are remembered in memory. A retry with a remembered messageId is not scheduled again, for instance when the original message is redelivered after its lock was lost. Per function instance; use duplicate detection on the queue or topic to drop duplicates across instances.
+ * @property sessions - Optional: Retry behavior for session triggers (isSessionsEnabled). Rescheduled messages always keep the sessionId of the failed message. Set holdBack to hold back later messages in a session while a message in the session is being retried: they are rescheduled after the retry without calling the handler, and do not count toward maxRetries. Only for single message triggers.
+ * @property scheduledRetryIndex - Optional: Where the sequence numbers of scheduled retries are recorded, so that they can be cancelled with cancelScheduledRetries (default: in memory, shared by all functions in this instance, and evicted 5 minutes after the scheduled time).
+ * @property openTelemetry - Optional: Whether to trace and measure retries through @opentelemetry/api, when that package is installed (default: true). Each invocation gets a consumer span, rescheduled messages carry its trace context, and retries are linked to the trace of the original message.
+ * @property logger - Optional: Receives the structured log events of the library (default: logged through the invocation context, or the console at registration, as `SRBLIB: ` followed by the event as JSON).
+ * @property logLevel - Optional: The minimum level of logged events, or 'none' to silence the library (default: 'debug').
+ * @property circuitBreaker - Optional: Circuit breaker keyed by function name. It opens after failureThreshold handler failures within windowSeconds. While it is open, messages are rescheduled to the time it becomes half-open, without calling the handler. These reschedules do not count toward maxRetries.
  */
-export type ServiceBusRetryConfiguration = RetryConfiguration & {
+export type ServiceBusRetryConfiguration = RetryConfiguration & LoggingConfiguration & {
   sendConnectionString: string
   preserveExpiresAt?: boolean
+  shouldRetry?: (error: unknown, context: ServiceBusRetryInvocationContext | ServiceBusRetryBatchInvocationContext) => boolean
+  onExhausted?: 'throw' | 'deadLetter' | { forwardTo: string }
+  retryQueueName?: string
+  envelope?: RetryEnvelope
+  preserveMessageProperties?: PreserveMessagePropertiesConfiguration
+  getRetryAfter?: (error: unknown) => number | Date | undefined
+  retryAfterCountsTowardMaxRetries?: boolean
+  maxRetryDurationSeconds?: number
+  finalAttemptAtDeadline?: boolean
+  circuitBreaker?: CircuitBreakerConfiguration
+  inProcessRetries?: InProcessRetryConfiguration
+  stateStore?: RetryStateStore
+  maxMessageSizeBytes?: number
+  onMessageTooLarge?: 'throw' | 'claimCheck'
+  lockDurationSeconds?: number
+  dedupeWindowSeconds?: number
+  sessions?: SessionRetryConfiguration
+  scheduledRetryIndex?: ScheduledRetryIndex
+  openTelemetry?: boolean
 }
 
-export type ServiceBusBindingData = {
-  messageId?: string
-  enqueuedTimeUtc?: string
-  expiresAtUtc?: string
-}
-
-
 /**
- * Represents a message that can be retried, extending a generic object type `T`.
+ * Immediate retries within the same invocation, for brief transient errors. Errors that are not retryable or that
+ * carry a retry-after hint are not retried in process.
  *
- * @template T - The base type of the message, which must extend `object`.
- *
- * @property originalBindingData - The binding data associated with the Service Bus message.
- * @property tryCount - The number of retry attempts made for this message.
+ * @property count - The maximum number of in-process retries.
+ * @property delayMilliseconds - Optional: The delay before the first in-process retry (default: 100).
+ * @property exponentialFactor - Optional: The factor by which the delay increases for each in-process retry (default: 2).
+ * @property lockDurationSeconds - Optional: The lock duration of the queue or subscription (default: retryConfiguration.lockDurationSeconds, or 60). No in-process retry is started when it would not finish within the lock duration, judging by the duration of the previous attempt.
  */
-export type ServiceBusRetryMessageWrapper<T> = {
-  message: T,
-  originalBindingData: ServiceBusBindingData
-  publishCount: number
+export type InProcessRetryConfiguration = {
+  count: number
+  delayMilliseconds?: number
+  exponentialFactor?: number
+  lockDurationSeconds?: number
 }
 
+/**
+ * Application property set on messages rescheduled by a topic trigger. It holds the name of the subscription
+ * that failed to process the message, so that the retry is only handled by that subscription.
+ * Add a SQL filter rule to your subscriptions to prevent other subscriptions from receiving the retry at all:
+ * `"x-retry-target-subscription" IS NULL OR "x-retry-target-subscription" = '<subscription name>'`
+ */
+export const RETRY_TARGET_SUBSCRIPTION_PROPERTY = 'x-retry-target-subscription'
+
 export type ServiceBusRetryInvocationContext = InvocationContext & {
   originalBindingData: ServiceBusBindingData
   publishCount: number
+  failureHistory: ServiceBusRetryFailure[]
+  attemptInInvocation: number
+  scheduledSequenceNumber?: SequenceNumber
+}
+
+/**
+ * The invocation context passed to batch handlers (cardinality = many). `retryMetadata` has one entry for each message
+ * in the batch, in the same order as the messages passed to the handler. Once the handler has failed,
+ * `scheduledSequenceNumbers` holds the sequence numbers of the rescheduled messages at the same positions.
+ */
+export type ServiceBusRetryBatchInvocationContext = InvocationContext & {
+  retryMetadata: ServiceBusRetryMetadata[]
+  scheduledSequenceNumbers: (SequenceNumber | undefined)[]
 }
 
+/**
+ * Validates the unwrapped message before it is passed to the handler, and returns the message as the handler receives
+ * it. Either an object with a parse method, such as a Zod schema, or a function. Both throw when the message is invalid.
+ */
+export type MessageSchema<T> = { parse(message: unknown): T } | ((message: unknown) => T)
+
 type TypedFunctionHandler<T, S> = (message: T, context: ServiceBusRetryInvocationContext) => FunctionResult<S>
-export type ServiceBusQueueRetryFunctionOptions<T,S> = Omit<ServiceBusQueueFunctionOptions, 'handler'> & {
+type TypedBatchFunctionHandler<T, S> = (messages: T[], context: ServiceBusRetryBatchInvocationContext) => FunctionResult<S>
+
+type RetryHandlerOptions<T, S> = {
   retryConfiguration?: ServiceBusRetryConfiguration,
+  schema?: MessageSchema<T>
+} & ({
+  cardinality?: 'one'
   handler: TypedFunctionHandler<T, S>
+  hooks?: RetryLifecycleHooks<T, ServiceBusRetryInvocationContext>
+} | {
+  cardinality: 'many'
+  handler: TypedBatchFunctionHandler<T, S>
+  hooks?: RetryLifecycleHooks<T, ServiceBusRetryBatchInvocationContext>
+})
+
+export type ServiceBusQueueRetryFunctionOptions<T,S> = Omit<ServiceBusQueueFunctionOptions, 'handler' | 'cardinality'> & RetryHandlerOptions<T, S>
+
+export type ServiceBusTopicRetryFunctionOptions<T,S> = Omit<ServiceBusTopicFunctionOptions, 'handler' | 'cardinality'> & RetryHandlerOptions<T, S>
+
+/**
+ * The destination for rescheduled messages. For topic triggers, the subscription name is used to make sure the retry
+ * is only processed by the subscription that failed. The receiver is only created when messages are dead-lettered
+ * directly: for batch triggers and when onExhausted is 'deadLetter'. The parking lot sender is only created when
+ * onExhausted has a forwardTo destination. The circuit breaker, the dedupe cache and the session hold-back are shared
+ * with the trigger on the retry queue. Scheduled retries are recorded in the scheduled retry index under the function
+ * name. The hooks and the schema are taken from the function options.
+ */
+type RetryTarget = {
+  functionName: string
+  scheduledRetryIndex: ScheduledRetryIndex
+  sender: ServiceBusSender
+  receiver?: ServiceBusReceiver
+  parkingLotSender?: ServiceBusSender
+  subscriptionName?: string
+  circuitBreaker?: CircuitBreaker
+  dedupeCache?: DedupeCache
+  sessionsEnabled?: boolean
+  sessionHoldBack?: SessionHoldBack
+  hooks?: RetryLifecycleHooks<unknown, InvocationContext>
+  schema?: MessageSchema<unknown>
+}
+
+/**
+ * A message as it was received in this invocation.
+ *
+ * @property wrappedMessage - The message as it will be rescheduled when it fails.
+ * @property currentMessageId - The messageId of the message as it was received in this invocation.
+ * @property lockToken - The lock token of the received message. Used to dead-letter the message directly.
+ * @property properties - The properties of the message as it was received in this invocation.
+ * @property receivedTime - The time the invocation started, in milliseconds since the epoch. The message lock is
+ * measured from this time.
+ * @property lockedUntil - Optional: The time until which the message lock is held, in milliseconds since the epoch. Only
+ * known when lockDurationSeconds is configured.
+ * @property batchIndex - Optional: The position of the message in the batch passed to a batch handler.
+ */
+type ReceivedMessage<T> = {
+  wrappedMessage: ServiceBusRetryMessageWrapper<T>
+  currentMessageId: string
+  lockToken?: string
+  properties: ServiceBusMessageProperties
+  receivedTime: number
+  lockedUntil?: number
+  batchIndex?: number
+}
+
+/**
+ * A message that failed processing and is being retried. The failure is already added to the failure history of the
+ * wrapped message.
+ *
+ * @property error - The error thrown by the handler.
+ */
+type FailedMessage<T> = ReceivedMessage<T> & {
+  error: unknown
 }
 
+const MAX_FAILURE_HISTORY_LENGTH = 20
+const MAX_FAILURE_MESSAGE_LENGTH = 500
+const DEFAULT_LOCK_DURATION_SECONDS = 60
+// Time needed to schedule a retry before the lock expires
+const LOCK_MARGIN_MILLISECONDS = 5000
+// Maximum length of a messageId in Service Bus
+const MAX_MESSAGE_ID_LENGTH = 128
+
+const defaultScheduledRetryIndex = new InMemoryScheduledRetryIndex()
+// The targets of all functions registered with retries, by function name, to cancel scheduled retries
+const retryTargets = new Map<string, RetryTarget>()
+
 export function serviceBusQueueWithRetries<T = unknown, S = void>(name: string, options: ServiceBusQueueRetryFunctionOptions<T,S>): void {
-  const { retryConfiguration, handler } = options
+  registerWithRetries(name, options, {
+    kind: 'queue',
+    entityPath: options.queueName,
+    register: (functionName, functionOptions) => app.serviceBusQueue(functionName, functionOptions as ServiceBusQueueFunctionOptions),
+  })
+}
+
+export function serviceBusTopicWithRetries<T = unknown, S = void>(name: string, options: ServiceBusTopicRetryFunctionOptions<T,S>): void {
+  registerWithRetries(name, options, {
+    kind: 'topic',
+    entityPath: options.topicName,
+    subscriptionName: options.subscriptionName,
+    register: (functionName, functionOptions) => app.serviceBusTopic(functionName, functionOptions as ServiceBusTopicFunctionOptions),
+  })
+}
+
+/**
+ * The trigger a function is registered on.
+ *
+ * @property entityPath - The name of the queue or topic.
+ * @property subscriptionName - Optional: The name of the subscription, for topic triggers.
+ * @property register - Registers a function on the trigger with the Functions host.
+ */
+type RetryTrigger = {
+  kind: 'queue' | 'topic'
+  entityPath: string
+  subscriptionName?: string
+  register: (name: string, options: object) => void
+}
+
+function registerWithRetries<T, S>(name: string, options: ServiceBusQueueRetryFunctionOptions<T, S> | ServiceBusTopicRetryFunctionOptions<T, S>, trigger: RetryTrigger): void {
+  const { retryConfiguration } = options
   if (retryConfiguration === undefined) {
-    // console.log is used here instead of logger because the logger is not yet initialized at this point. Console.log messages will be visible in the Azure Functions logs.
-    console.log('SRBLIB: No retry configuration provided, using default service bus queue trigger')
-    //@ts-expect-error The serviceBusQueue expects the handler to accept a message of type unkonwn, as it does not know the type of the message.
-    //We chose to enable more type safety by allowing the user to specify the type of the message at the creation of the trigger.
-    return app.serviceBusQueue(name, options)
-  }
-  console.log('SRBLIB: Retry configuration provided, using retryable service bus queue trigger')
-  const sender = new ServiceBusClient(retryConfiguration.sendConnectionString).createSender(options.queueName)
-  const retryWrapper: FunctionHandler = async (message: T | ServiceBusRetryMessageWrapper<T>, context: InvocationContext): Promise<S | void> => executeWithRetries<T, S>(handler, message, context, sender, retryConfiguration)
+    logEvent({}, 'info', { event: 'triggerRegistered', message: `No retry configuration provided, using default service bus ${trigger.kind} trigger`, functionName: name })
+    // The Functions host expects the handler to accept a message of type unknown, as it does not know the type of the
+    // message. We chose to enable more type safety by allowing the user to specify the type of the message.
+    return trigger.register(name, options)
+  }
+  validateRetryConfiguration(name, options, retryConfiguration)
+  logEvent(retryConfiguration, 'info', { event: 'triggerRegistered', message: `Retry configuration provided, using retryable service bus ${trigger.kind} trigger`, functionName: name })
+  const client = new ServiceBusClient(retryConfiguration.sendConnectionString)
+  const target: RetryTarget = {
+    functionName: name,
+    scheduledRetryIndex: retryConfiguration.scheduledRetryIndex ?? defaultScheduledRetryIndex,
+    sender: client.createSender(retryConfiguration.retryQueueName ?? trigger.entityPath),
+    receiver: usesDeadLetterReceiver(options, retryConfiguration) ? createReceiver(client, trigger.entityPath, trigger.subscriptionName) : undefined,
+    parkingLotSender: createParkingLotSender(client, retryConfiguration),
+    subscriptionName: trigger.subscriptionName,
+    circuitBreaker: createCircuitBreakerIfConfigured(name, retryConfiguration),
+    dedupeCache: createDedupeCacheIfConfigured(retryConfiguration),
+    sessionsEnabled: options.isSessionsEnabled,
+    sessionHoldBack: createSessionHoldBackIfConfigured(name, options, retryConfiguration),
+    hooks: options.hooks,
+    schema: options.schema,
+  }
   const newOptions = {
     ...options,
-    handler: retryWrapper,
+    handler: createRetryWrapper(options, target, retryConfiguration),
   }
   delete newOptions.retryConfiguration
-  return app.serviceBusQueue(name, newOptions)
+  delete newOptions.hooks
+  delete newOptions.schema
+  trigger.register(name, newOptions)
+  retryTargets.set(name, target)
+  registerRetryQueueTrigger(name, options, client, target, retryConfiguration)
+}
+
+function validateRetryConfiguration<T, S>(name: string, options: ServiceBusQueueRetryFunctionOptions<T, S> | ServiceBusTopicRetryFunctionOptions<T, S>, retryConfiguration: ServiceBusRetryConfiguration): void {
+  if (retryConfiguration.onMessageTooLarge === 'claimCheck' && retryConfiguration.stateStore === undefined) {
+    throw new Error(`Function ${name} sets onMessageTooLarge to 'claimCheck', which requires a stateStore`)
+  }
+  // Messages of a session are locked by the session receiver of the Functions host, so they can not be dead-lettered
+  // by lock token
+  if (options.isSessionsEnabled === true && usesDeadLetterReceiver(options, retryConfiguration)) {
+    throw new Error(options.cardinality === 'many'
+      ? `Function ${name} is a batch session trigger, which requires onExhausted to be a parking lot ({ forwardTo })`
+      : `Function ${name} sets onExhausted to 'deadLetter', which is not supported for session triggers`)
+  }
+}
+
+function createReceiver(client: ServiceBusClient, entityPath: string, subscriptionName: string | undefined): ServiceBusReceiver {
+  return subscriptionName !== undefined ? client.createReceiver(entityPath, subscriptionName) : client.createReceiver(entityPath)
 }
 
-async function executeWithRetries<T = unknown,S = void>(handler: TypedFunctionHandler<T,S>, message: T | ServiceBusRetryMessageWrapper<T>, originalContext: InvocationContext, sender: ServiceBusSender, retryConfiguration: ServiceBusRetryConfiguration): Promise<S | void> {
-  const { context, unwrappedMessage } = buildRetryInvocationContextAndMessage(originalContext, message)
-  const wrappedMessage: ServiceBusRetryMessageWrapper<T> = {
-    message: unwrappedMessage,
-    originalBindingData: context.originalBindingData,
-    publishCount: context.publishCount
+/**
+ * Cancels the scheduled retries of a message, for all functions registered with retries in this instance. Retries
+ * scheduled by other instances are only cancelled when a shared scheduledRetryIndex is configured. Returns the number
+ * of cancelled retries.
+ */
+export async function cancelScheduledRetries(originalMessageId: string): Promise<number> {
+  let cancelledCount = 0
+  for (const target of retryTargets.values()) {
+    const retries = await removeScheduledRetries(target.scheduledRetryIndex, originalMessageId, target.functionName)
+    for (const { sequenceNumber } of retries) {
+      try {
+        await target.sender.cancelScheduledMessages(sequenceNumber)
+        cancelledCount++
+      } catch (error) {
+        // The retry was already enqueued
+        if ((error as { code?: string }).code !== 'MessageNotFound') {
+          throw error
+        }
+      }
+    }
   }
+  return cancelledCount
+}
 
+/**
+ * Registers the trigger on the dedicated retry queue, if one is configured. It runs the same handler with the same
+ * retry configuration as the main trigger, and only needs its own receiver to dead-letter messages from the retry queue.
+ */
+function registerRetryQueueTrigger<T, S>(name: string, options: ServiceBusQueueRetryFunctionOptions<T, S> | ServiceBusTopicRetryFunctionOptions<T, S>, client: ServiceBusClient, target: RetryTarget, retryConfiguration: ServiceBusRetryConfiguration): void {
+  const { retryQueueName } = retryConfiguration
+  if (retryQueueName === undefined) {
+    return
+  }
+  logEvent(retryConfiguration, 'info', { event: 'triggerRegistered', message: `Registering retry trigger on retry queue ${retryQueueName}`, functionName: `${name}-retry` })
+  const retryTarget: RetryTarget = {
+    ...target,
+    receiver: usesDeadLetterReceiver(options, retryConfiguration) ? client.createReceiver(retryQueueName) : undefined,
+  }
+  // Everything but the entity and the options of this library applies to the retry queue trigger as well, e.g.
+  // autoCompleteMessages or sdkBinding.
+  const retryOptions: Record<string, unknown> = {
+    ...options,
+    queueName: retryQueueName,
+    handler: createRetryWrapper(options, retryTarget, retryConfiguration),
+  }
+  for (const key of ['topicName', 'subscriptionName', 'retryConfiguration', 'hooks', 'schema']) {
+    delete retryOptions[key]
+  }
+  app.serviceBusQueue(`${name}-retry`, retryOptions as unknown as ServiceBusQueueFunctionOptions)
+}
+
+function usesDeadLetterReceiver<T, S>(options: RetryHandlerOptions<T, S>, retryConfiguration: ServiceBusRetryConfiguration): boolean {
+  return retryConfiguration.onExhausted === 'deadLetter' || (options.cardinality === 'many' && typeof retryConfiguration.onExhausted !== 'object')
+}
+
+function createParkingLotSender(client: ServiceBusClient, retryConfiguration: ServiceBusRetryConfiguration): ServiceBusSender | undefined {
+  const { onExhausted } = retryConfiguration
+  return typeof onExhausted === 'object' ? client.createSender(onExhausted.forwardTo) : undefined
+}
+
+function createCircuitBreakerIfConfigured(name: string, retryConfiguration: ServiceBusRetryConfiguration): CircuitBreaker | undefined {
+  const { circuitBreaker } = retryConfiguration
+  return circuitBreaker !== undefined ? createCircuitBreaker(name, circuitBreaker) : undefined
+}
+
+function createDedupeCacheIfConfigured(retryConfiguration: ServiceBusRetryConfiguration): DedupeCache | undefined {
+  const { dedupeWindowSeconds } = retryConfiguration
+  return dedupeWindowSeconds !== undefined ? createDedupeCache(dedupeWindowSeconds) : undefined
+}
+
+function createSessionHoldBackIfConfigured<T, S>(name: string, options: ServiceBusQueueRetryFunctionOptions<T, S> | ServiceBusTopicRetryFunctionOptions<T, S>, retryConfiguration: ServiceBusRetryConfiguration): SessionHoldBack | undefined {
+  const { sessions } = retryConfiguration
+  if (options.isSessionsEnabled !== true || options.cardinality === 'many' || sessions?.holdBack !== true) {
+    return undefined
+  }
+  return createSessionHoldBack(name, sessions)
+}
+
+function createRetryWrapper<T, S>(options: RetryHandlerOptions<T, S>, target: RetryTarget, retryConfiguration: ServiceBusRetryConfiguration): FunctionHandler {
+  if (options.cardinality === 'many') {
+    const batchHandler = options.handler
+    return async (messages: unknown[], context: InvocationContext): Promise<S | void> => executeBatchWithRetries<T, S>(batchHandler, messages, context, target, retryConfiguration)
+  }
+  const handler = options.handler
+  return async (message: T | ServiceBusRetryMessageWrapper<T>, context: InvocationContext): Promise<S | void> => {
+    if (isRetryForOtherSubscription(context.triggerMetadata?.applicationProperties, target.subscriptionName)) {
+      logEvent(retryConfiguration, 'debug', {
+        event: 'messageIgnored',
+        message: 'Ignoring retry message targeted at another subscription',
+        currentMessageId: context.triggerMetadata?.messageId as string | undefined,
+      }, context)
+      return
+    }
+    return executeWithRetries<T, S>(handler, message, context, target, retryConfiguration)
+  }
+}
+
+function isRetryForOtherSubscription(applicationProperties: unknown, subscriptionName: string | undefined): boolean {
+  if (subscriptionName === undefined) {
+    return false
+  }
+  const targetSubscription = (applicationProperties as Record<string, unknown> | undefined)?.[RETRY_TARGET_SUBSCRIPTION_PROPERTY]
+  return targetSubscription !== undefined && targetSubscription !== subscriptionName
+}
+
+async function executeWithRetries<T = unknown,S = void>(handler: TypedFunctionHandler<T,S>, message: T | ServiceBusRetryMessageWrapper<T>, originalContext: InvocationContext, target: RetryTarget, retryConfiguration: ServiceBusRetryConfiguration): Promise<S | void> {
+  const receivedTime = Date.now()
+  const context = originalContext as ServiceBusRetryInvocationContext
+  const currentBindingData = getBindingData(context.triggerMetadata)
+  // Until the message is unwrapped, it is failed as received, as in a batch
+  const receivedMessage: ReceivedMessage<T> = {
+    wrappedMessage: { message: message as T, ...getFirstAttemptMetadata(currentBindingData) },
+    currentMessageId: context.triggerMetadata?.messageId as string,
+    lockToken: context.triggerMetadata?.lockToken as string | undefined,
+    properties: getMessageProperties(context.triggerMetadata),
+    receivedTime,
+    lockedUntil: getLockedUntil(retryConfiguration, receivedTime),
+  }
   try {
-    return await handler(unwrappedMessage, context)
-  } catch {
-    throwErrorIfMaxRetriesReached(retryConfiguration, context)
-    await resendWithDelay(retryConfiguration, context, wrappedMessage, sender)
+    await unwrapReceivedMessage(retryConfiguration, receivedMessage, message, currentBindingData, context.triggerMetadata?.applicationProperties)
+  } catch (error) {
+    setRetryContext(retryConfiguration, context, receivedMessage.wrappedMessage)
+    await retryOrFail(retryConfiguration, context, recordFailure(receivedMessage, error), target)
+    return
   }
+  const { message: unwrappedMessage, ...retryMetadata } = receivedMessage.wrappedMessage
+  setRetryContext(retryConfiguration, context, receivedMessage.wrappedMessage)
+  await forgetScheduledRetry(target, receivedMessage)
+
+  const telemetry = await getTelemetry(retryConfiguration)
+  const originalApplicationProperties = retryMetadata.publishCount > 1 ? retryMetadata.originalBindingData?.applicationProperties : undefined
+  return telemetry.withSpan(
+    `${target.functionName} process`,
+    getSpanAttributes(target, receivedMessage),
+    receivedMessage.properties.applicationProperties,
+    [originalApplicationProperties],
+    () => processMessage(handler, unwrappedMessage, context, receivedMessage, target, retryConfiguration, telemetry))
 }
 
-function throwErrorIfMaxRetriesReached(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext): void {
-  if (context.publishCount > retryConfiguration.maxRetries) {
-    context.info(`Max retries (${retryConfiguration.maxRetries}) reached for message originalId / retryId: ${context.originalBindingData?.messageId} / ${context.triggerMetadata?.messageId}`)
-    throw new MaxRetriesReachedError(context.originalBindingData?.messageId as string, context.triggerMetadata?.messageId as string)
+async function processMessage<T, S>(handler: TypedFunctionHandler<T, S>, unwrappedMessage: T, context: ServiceBusRetryInvocationContext, receivedMessage: ReceivedMessage<T>, target: RetryTarget, retryConfiguration: ServiceBusRetryConfiguration, telemetry: RetryTelemetry): Promise<S | void> {
+  const heldBackUntil = await getSessionHeldBackUntil(target, receivedMessage)
+  if (heldBackUntil !== undefined) {
+    await pauseOrHandleExhausted(retryConfiguration, context, receivedMessage, target, heldBackUntil, 'Session is held back by a message that is being retried')
+    return
+  }
+
+  const pausedUntil = await target.circuitBreaker?.getPausedUntil()
+  if (pausedUntil !== undefined) {
+    await pauseOrHandleExhausted(retryConfiguration, context, receivedMessage, target, pausedUntil, 'Circuit breaker is open')
+    return
+  }
+
+  let result: S
+  try {
+    result = await invokeWithInProcessRetries(handler, parseMessage(target.schema, receivedMessage, unwrappedMessage), context, receivedMessage.receivedTime, retryConfiguration)
+  } catch (error) {
+    telemetry.recordError(error)
+    await recordCircuitBreakerFailure(target, error)
+    await retryOrFail(retryConfiguration, context, recordFailure(receivedMessage, error), target)
+    return
   }
+  await target.circuitBreaker?.recordSuccess()
+  await completeMessage(retryConfiguration, context, target, receivedMessage)
+  return result
 }
 
-async function resendWithDelay<T>(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext, wrappedMessage: ServiceBusRetryMessageWrapper<T>, sender: ServiceBusSender): Promise<void>  {
-  const delaySeconds = calculateBackoffSeconds(retryConfiguration, context.publishCount - 1)
-  const scheduledTime = new Date(Date.now() + delaySeconds * 1000)
+/**
+ * Reschedules a failed single message, or handles it as exhausted. With onExhausted 'throw', the error of an exhausted
+ * message is thrown, so that Service Bus handles it like any failed delivery.
+ */
+async function retryOrFail<T>(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext, failedMessage: FailedMessage<T>, target: RetryTarget): Promise<void> {
+  if ((retryConfiguration.onExhausted ?? 'throw') !== 'throw') {
+    await retryOrHandleExhausted(retryConfiguration, context, failedMessage, target)
+    return
+  }
+  try {
+    throwErrorIfNotRetryable(retryConfiguration, context, failedMessage)
+    throwErrorIfMaxRetriesReached(retryConfiguration, context, failedMessage)
+    await resendWithDelay(retryConfiguration, context, failedMessage, target)
+  } catch (exhaustedError) {
+    await finishIfExhausted(retryConfiguration, context, target, failedMessage, exhaustedError)
+    throw exhaustedError
+  }
+}
 
-  wrappedMessage.publishCount += 1
+/**
+ * Calls the handler, and calls it again in the same invocation for errors that are retried in process.
+ */
+async function invokeWithInProcessRetries<T, S>(handler: TypedFunctionHandler<T, S>, message: T, context: ServiceBusRetryInvocationContext, receivedTime: number, retryConfiguration: ServiceBusRetryConfiguration): Promise<S> {
+  for (let attempt = 1; ; attempt++) {
+    context.attemptInInvocation = attempt
+    const attemptStartTime = Date.now()
+    try {
+      return await handler(message, context)
+    } catch (error) {
+      const delayMilliseconds = getInProcessRetryDelay(retryConfiguration, context, error, attempt)
+      if (delayMilliseconds === undefined) {
+        throw error
+      }
+      const lockDurationMilliseconds = (retryConfiguration.inProcessRetries?.lockDurationSeconds ?? retryConfiguration.lockDurationSeconds ?? DEFAULT_LOCK_DURATION_SECONDS) * 1000
+      const expectedEndTime = Date.now() + delayMilliseconds + (Date.now() - attemptStartTime)
+      // Leave the same margin as throwErrorIfLockLost, so the message can still be rescheduled after the last attempt
+      if (expectedEndTime > receivedTime + lockDurationMilliseconds - LOCK_MARGIN_MILLISECONDS) {
+        logEvent(retryConfiguration, 'debug', { event: 'inProcessRetrySkipped', message: `Not retrying in process, attempt ${attempt + 1} would not finish within the lock duration` }, context)
+        throw error
+      }
+      logEvent(retryConfiguration, 'debug', { event: 'inProcessRetry', message: `Retrying in process, attempt ${attempt + 1}`, delaySeconds: delayMilliseconds / 1000 }, context)
+      await new Promise(resolve => setTimeout(resolve, delayMilliseconds))
+    }
+  }
+}
 
-  await resendMessage(retryConfiguration, context, wrappedMessage, sender, scheduledTime)
+/**
+ * Returns the delay before the next in-process retry, or undefined when the error is not retried in process.
+ */
+function getInProcessRetryDelay(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext, error: unknown, attempt: number): number | undefined {
+  const { inProcessRetries } = retryConfiguration
+  if (inProcessRetries === undefined || attempt > inProcessRetries.count) {
+    return undefined
+  }
+  const retryable = !(error instanceof NonRetryableError) && (retryConfiguration.shouldRetry?.(error, context) ?? true)
+  if (!retryable || getRetryAfterSeconds(retryConfiguration, error) !== undefined) {
+    return undefined
+  }
+  const { delayMilliseconds = 100, exponentialFactor = 2 } = inProcessRetries
+  return delayMilliseconds * Math.pow(exponentialFactor, attempt - 1)
 }
 
-async function resendMessage<T>(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext, wrappedMessage: ServiceBusRetryMessageWrapper<T>, sender: ServiceBusSender, scheduledTime: Date): Promise<void>  {
+async function executeBatchWithRetries<T = unknown, S = void>(handler: TypedBatchFunctionHandler<T,S>, messages: unknown[], originalContext: InvocationContext, target: RetryTarget, retryConfiguration: ServiceBusRetryConfiguration): Promise<S | void> {
+  const receivedTime = Date.now()
+  const { context, unwrappedMessages, receivedMessages, invalidMessages } = await buildRetryBatchInvocationContextAndMessages<T>(originalContext, messages, target, retryConfiguration, receivedTime)
+  for (const invalidMessage of invalidMessages) {
+    await forgetScheduledRetry(target, invalidMessage)
+    await retryOrHandleExhausted(retryConfiguration, context, invalidMessage, target)
+  }
+  if (unwrappedMessages.length === 0) {
+    return
+  }
+  for (const receivedMessage of receivedMessages) {
+    await forgetScheduledRetry(target, receivedMessage)
+  }
 
-  const serviceBusMessage: ServiceBusMessage = {
-    body: wrappedMessage,
-    contentType: 'application/json',
-    scheduledEnqueueTimeUtc: scheduledTime,
+  const telemetry = await getTelemetry(retryConfiguration)
+  return telemetry.withSpan(
+    `${target.functionName} process`,
+    { ...getSpanAttributes(target), 'messaging.batch.message_count': receivedMessages.length },
+    undefined,
+    receivedMessages.map(receivedMessage => receivedMessage.properties.applicationProperties),
+    () => processBatch(handler, unwrappedMessages, context, receivedMessages, target, retryConfiguration, telemetry))
+}
+
+async function processBatch<T, S>(handler: TypedBatchFunctionHandler<T, S>, unwrappedMessages: T[], context: ServiceBusRetryBatchInvocationContext, receivedMessages: ReceivedMessage<T>[], target: RetryTarget, retryConfiguration: ServiceBusRetryConfiguration, telemetry: RetryTelemetry): Promise<S | void> {
+  const openUntil = await target.circuitBreaker?.getOpenUntil()
+  if (openUntil !== undefined) {
+    for (const receivedMessage of receivedMessages) {
+      const pausedUntil = await target.circuitBreaker?.getPausedUntil() ?? openUntil
+      await pauseOrHandleExhausted(retryConfiguration, context, receivedMessage, target, pausedUntil, 'Circuit breaker is open')
+    }
+    return
+  }
+
+  let result: S
+  try {
+    result = await handler(unwrappedMessages, context)
+  } catch (error) {
+    telemetry.recordError(error)
+    await recordCircuitBreakerFailure(target, error)
+    const failures = error instanceof BatchProcessingError
+      ? error.failures
+      : unwrappedMessages.map((_, index) => ({ index, error }))
+    const handledIndexes = new Set<number>()
+    for (const failure of failures) {
+      const receivedMessage = receivedMessages[failure.index]
+      if (receivedMessage === undefined) {
+        logEvent(retryConfiguration, 'warn', { event: 'batchFailureIgnored', message: `Ignoring reported failure for unknown batch index ${failure.index}` }, context)
+        continue
+      }
+      if (handledIndexes.has(failure.index)) {
+        continue
+      }
+      handledIndexes.add(failure.index)
+      await retryOrHandleExhausted(retryConfiguration, context, recordFailure(receivedMessage, failure.error), target)
+    }
+    for (const [index, receivedMessage] of receivedMessages.entries()) {
+      if (!handledIndexes.has(index)) {
+        await completeMessage(retryConfiguration, context, target, receivedMessage)
+      }
+    }
+    return
+  }
+  await target.circuitBreaker?.recordSuccess()
+  for (const receivedMessage of receivedMessages) {
+    await completeMessage(retryConfiguration, context, target, receivedMessage)
+  }
+  return result
+}
+
+async function retryOrHandleExhausted<T>(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext | ServiceBusRetryBatchInvocationContext, failedMessage: FailedMessage<T>, target: RetryTarget): Promise<void> {
+  try {
+    throwErrorIfNotRetryable(retryConfiguration, context, failedMessage)
+    throwErrorIfMaxRetriesReached(retryConfiguration, context, failedMessage)
+    await resendWithDelay(retryConfiguration, context, failedMessage, target)
+  } catch (error) {
+    await handleExhausted(retryConfiguration, context, failedMessage, target, error)
   }
-  applyTtlIfNeeded(retryConfiguration, context, serviceBusMessage)
+}
 
-  context.info(`Rescheduling message. Original messageId: ${context.originalBindingData?.messageId}, tryCount: ${context.publishCount}, scheduledTime: ${scheduledTime.toISOString()}`)
-  await sender.scheduleMessages(serviceBusMessage, serviceBusMessage.scheduledEnqueueTimeUtc as Date )
+async function handleExhausted<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, failedMessage: FailedMessage<T>, target: RetryTarget, error: unknown): Promise<void> {
+  const reason = getExhaustedReason(error)
+  if (reason === undefined) {
+    throw error
+  }
+  if (target.parkingLotSender !== undefined) {
+    await forwardToParkingLot(retryConfiguration, context, failedMessage, target.parkingLotSender, reason)
+  } else {
+    await deadLetterFailedMessage(retryConfiguration, context, failedMessage, target, reason, error as Error)
+  }
+  await finishExhausted(retryConfiguration, context, target, failedMessage, error, reason)
 }
 
-function applyTtlIfNeeded(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext, serviceBusMessage: ServiceBusMessage): void {
-  if (retryConfiguration.preserveExpiresAt !== false && context.originalBindingData.expiresAtUtc !== undefined) {
-    const expiryDateTime = fromZonedTime(context.originalBindingData.expiresAtUtc, 'UTC')
-    const timeToLive = expiryDateTime.getTime() - Date.now()
-    if (timeToLive <= 0) {
-      throw new MessageExpiredError(context.originalBindingData?.messageId as string, context.triggerMetadata?.messageId as string)
+/**
+ * Reschedules a message to the given time without calling the handler, for instance to the time the circuit breaker
+ * becomes half-open. The reschedule does not count toward maxRetries, but the message expiry and retry budget still apply.
+ */
+async function pauseOrHandleExhausted<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, receivedMessage: ReceivedMessage<T>, target: RetryTarget, pausedUntil: Date, pauseReason: string): Promise<void> {
+  const { wrappedMessage } = receivedMessage
+  const pausedMessage: FailedMessage<T> = {
+    ...receivedMessage,
+    wrappedMessage: { ...wrappedMessage, uncountedRetryCount: (wrappedMessage.uncountedRetryCount ?? 0) + 1 },
+    error: undefined,
+  }
+  try {
+    const scheduledTime = applyRetryBudget(retryConfiguration, context, pausedMessage, pausedUntil)
+    logEvent(retryConfiguration, 'info', {
+      event: 'messagePaused',
+      message: 'Pausing message',
+      ...getMessageLogFields(receivedMessage),
+      scheduledTime: scheduledTime.toISOString(),
+      reason: pauseReason,
+    }, context)
+    await resendMessage(retryConfiguration, context, pausedMessage, target, scheduledTime)
+  } catch (error) {
+    // Without a receiver or parking lot, exhausted messages are failed by throwing, as with onExhausted 'throw'
+    if (target.receiver === undefined && target.parkingLotSender === undefined) {
+      await finishIfExhausted(retryConfiguration, context, target, pausedMessage, error)
+      throw error
     }
+    await handleExhausted(retryConfiguration, context, pausedMessage, target, error)
+  }
+}
+
+async function getSessionHeldBackUntil<T>(target: RetryTarget, receivedMessage: ReceivedMessage<T>): Promise<Date | undefined> {
+  const holdBackKey = getHoldBackKey(target, receivedMessage)
+  return holdBackKey !== undefined ? target.sessionHoldBack?.getHeldBackUntil(...holdBackKey) : undefined
+}
+
+/**
+ * Non-retryable errors are caused by the message rather than by a downstream outage, so they do not count as failures.
+ */
+async function recordCircuitBreakerFailure(target: RetryTarget, error: unknown): Promise<void> {
+  if (!(error instanceof NonRetryableError)) {
+    await target.circuitBreaker?.recordFailure()
+  }
+}
+
+function getExhaustedReason(error: unknown): DeadLetterReason | undefined {
+  if (error instanceof NonRetryableError) {
+    return 'NonRetryable'
+  } else if (error instanceof MaxRetriesReachedError) {
+    return 'MaxRetriesReached'
+  } else if (error instanceof MessageExpiredError) {
+    return 'MessageExpired'
+  } else if (error instanceof RetryBudgetExceededError) {
+    return 'RetryBudgetExceeded'
+  } else if (error instanceof RetryMessageTooLargeError) {
+    return 'MessageTooLarge'
+  }
+  return undefined
+}
+
+async function deadLetterFailedMessage<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, failedMessage: FailedMessage<T>, target: RetryTarget, reason: DeadLetterReason, error: Error): Promise<void> {
+  const { lockToken } = failedMessage
+  if (lockToken === undefined) {
+    logEvent(retryConfiguration, 'warn', { event: 'deadLetterFailed', message: 'No lock token available to dead-letter message', ...getMessageLogFields(failedMessage), reason }, context)
+    throw error
+  }
+  const summary = buildRetrySummary(failedMessage)
+  logEvent(retryConfiguration, 'info', { event: 'messageDeadLettered', message: 'Dead-lettering message', ...getMessageLogFields(failedMessage), reason }, context)
+  await deadLetterByLockToken(target.receiver as ServiceBusReceiver, lockToken, {
+    reason,
+    description: `${error.message}. Last error: ${summary['x-retry-summary-last-error']}`,
+    properties: summary,
+  })
+}
+
+async function forwardToParkingLot<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, failedMessage: FailedMessage<T>, parkingLotSender: ServiceBusSender, reason: DeadLetterReason): Promise<void> {
+  const { wrappedMessage, properties } = failedMessage
+  logEvent(retryConfiguration, 'info', {
+    event: 'messageForwarded',
+    message: `Forwarding message to parking lot ${parkingLotSender.entityPath}`,
+    ...getMessageLogFields(failedMessage),
+    reason,
+  }, context)
+  await parkingLotSender.sendMessages({
+    ...properties,
+    messageId: wrappedMessage.originalBindingData?.messageId ?? properties.messageId,
+    body: toMessageBody(wrappedMessage.message),
+    applicationProperties: {
+      ...properties.applicationProperties,
+      ...buildRetrySummary(failedMessage),
+      'x-retry-summary-exhausted-reason': reason,
+    },
+  })
+  // The parking lot message carries the body itself
+  await releaseClaimCheck(retryConfiguration, failedMessage)
+}
+
+/**
+ * Builds the application properties that describe the retry history of a message that could not be retried anymore.
+ * These are not envelope properties, so a message that is replayed from the parking lot is a first attempt again.
+ */
+function buildRetrySummary<T>(failedMessage: FailedMessage<T>): Record<string, string | number> {
+  const { wrappedMessage } = failedMessage
+  const failureHistory = wrappedMessage.failureHistory ?? []
+  const lastFailure = failureHistory.at(-1)
+  const summary: Record<string, string | number> = {
+    'x-retry-summary-publish-count': wrappedMessage.publishCount,
+    'x-retry-summary-last-error': lastFailure === undefined ? '' : `${lastFailure.name}: ${lastFailure.message}`,
+    'x-retry-summary-failure-history': JSON.stringify(failureHistory),
+  }
+  const originalMessageId = wrappedMessage.originalBindingData?.messageId
+  if (originalMessageId !== undefined) {
+    summary['x-retry-summary-original-message-id'] = originalMessageId
+  }
+  return summary
+}
+
+function throwErrorIfNotRetryable<T>(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext | ServiceBusRetryBatchInvocationContext, failedMessage: FailedMessage<T>): void {
+  const { wrappedMessage, currentMessageId, error } = failedMessage
+  const retryable = !(error instanceof NonRetryableError) && (retryConfiguration.shouldRetry?.(error, context) ?? true)
+  if (retryable) {
+    return
+  }
+  logEvent(retryConfiguration, 'info', { event: 'nonRetryable', message: 'Non-retryable error', ...getMessageLogFields(failedMessage), error: String(error) }, context)
+  throw error instanceof NonRetryableError
+    ? error
+    : new NonRetryableError(`Non-retryable error for original messageId / current messageId: ${wrappedMessage.originalBindingData?.messageId} / ${currentMessageId}`, error)
+}
+
+function throwErrorIfMaxRetriesReached<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, failedMessage: FailedMessage<T>): void {
+  const { wrappedMessage, currentMessageId } = failedMessage
+  if (retryConfiguration.retryAfterCountsTowardMaxRetries === false && getRetryAfterSeconds(retryConfiguration, failedMessage.error) !== undefined) {
+    return
+  }
+  if (wrappedMessage.publishCount - (wrappedMessage.uncountedRetryCount ?? 0) > retryConfiguration.maxRetries) {
+    logEvent(retryConfiguration, 'info', { event: 'maxRetriesReached', message: `Max retries (${retryConfiguration.maxRetries}) reached`, ...getMessageLogFields(failedMessage) }, context)
+    throw new MaxRetriesReachedError(wrappedMessage.originalBindingData?.messageId as string, currentMessageId, failedMessage.error)
+  }
+}
+
+async function resendWithDelay<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, failedMessage: FailedMessage<T>, target: RetryTarget): Promise<void>  {
+  const { wrappedMessage } = failedMessage
+  const retryAfterSeconds = getRetryAfterSeconds(retryConfiguration, failedMessage.error)
+  if (retryAfterSeconds !== undefined) {
+    logEvent(retryConfiguration, 'debug', { event: 'retryAfterHint', message: 'Using retry-after hint', ...getMessageLogFields(failedMessage), delaySeconds: retryAfterSeconds }, context)
+  }
+  // Pauses and uncounted retry-after reschedules do not count toward maxRetries, so they do not raise the backoff either
+  const retryCount = wrappedMessage.publishCount - 1 - (wrappedMessage.uncountedRetryCount ?? 0)
+  const delaySeconds = retryAfterSeconds ?? calculateBackoffSeconds(retryConfiguration, retryCount, {
+    context,
+    lastError: failedMessage.error,
+    previousDelaySeconds: wrappedMessage.previousDelaySeconds,
+  })
+  const scheduledTime = applyRetryBudget(retryConfiguration, context, failedMessage, new Date(Date.now() + delaySeconds * 1000))
+  const uncountedRetryCount = retryAfterSeconds !== undefined && retryConfiguration.retryAfterCountsTowardMaxRetries === false
+    ? (wrappedMessage.uncountedRetryCount ?? 0) + 1
+    : wrappedMessage.uncountedRetryCount
+
+  // The delay is carried in the envelope, because 'decorrelated-jitter' bases the next delay on it
+  const previousDelaySeconds = Math.round((scheduledTime.getTime() - Date.now()) / 1000)
+  await resendMessage(retryConfiguration, context, { ...failedMessage, wrappedMessage: { ...wrappedMessage, previousDelaySeconds, uncountedRetryCount } }, target, scheduledTime)
+}
+
+/**
+ * Checks the scheduled time against maxRetryDurationSeconds. Returns the deadline instead when the scheduled time is
+ * after it and a final attempt at the deadline is configured, and throws a RetryBudgetExceededError otherwise.
+ */
+function applyRetryBudget<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, failedMessage: FailedMessage<T>, scheduledTime: Date): Date {
+  const { originalBindingData } = failedMessage.wrappedMessage
+  if (retryConfiguration.maxRetryDurationSeconds === undefined || originalBindingData.enqueuedTimeUtc === undefined) {
+    return scheduledTime
+  }
+  const deadline = new Date(fromZonedTime(originalBindingData.enqueuedTimeUtc, 'UTC').getTime() + retryConfiguration.maxRetryDurationSeconds * 1000)
+  if (scheduledTime <= deadline) {
+    return scheduledTime
+  }
+  if (retryConfiguration.finalAttemptAtDeadline === true && deadline.getTime() > Date.now()) {
+    logEvent(retryConfiguration, 'debug', { event: 'finalAttemptScheduled', message: 'Scheduling final attempt at the retry deadline', ...getMessageLogFields(failedMessage), scheduledTime: deadline.toISOString() }, context)
+    return deadline
+  }
+  logEvent(retryConfiguration, 'info', { event: 'retryBudgetExceeded', message: `Retry budget (${retryConfiguration.maxRetryDurationSeconds} seconds) exceeded`, ...getMessageLogFields(failedMessage) }, context)
+  throw new RetryBudgetExceededError(originalBindingData.messageId as string, failedMessage.currentMessageId, failedMessage.error)
+}
+
+/**
+ * Returns the retry-after hint of a handler error in seconds, capped at maxDelaySeconds, or undefined when the error
+ * carries no usable hint.
+ */
+function getRetryAfterSeconds(retryConfiguration: ServiceBusRetryConfiguration, error: unknown): number | undefined {
+  const retryAfter = error instanceof RetryAfterError ? error.retryAfter : retryConfiguration.getRetryAfter?.(error)
+  if (retryAfter === undefined) {
+    return undefined
+  }
+  const seconds = retryAfter instanceof Date ? Math.ceil((retryAfter.getTime() - Date.now()) / 1000) : retryAfter
+  if (!Number.isFinite(seconds)) {
+    return undefined
+  }
+  const { maxDelaySeconds } = retryConfiguration
+  return Math.max(0, Math.round(maxDelaySeconds === undefined ? seconds : Math.min(seconds, maxDelaySeconds)))
+}
+
+async function resendMessage<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, receivedMessage: FailedMessage<T>, target: RetryTarget, scheduledTime: Date): Promise<void>  {
+  const timeToLive = getTimeToLive(retryConfiguration, receivedMessage)
+  const messageId = getRetryMessageId(receivedMessage, target)
+  if (messageId !== undefined && target.dedupeCache?.has(messageId) === true) {
+    logEvent(retryConfiguration, 'info', { event: 'retryDuplicateDropped', message: `Retry ${messageId} was already scheduled, dropping the duplicate`, ...getMessageLogFields(receivedMessage) }, context)
+    return
+  }
+  // A body that was stored before keeps its reference, even when only large bodies are stored
+  const storeLargeBodiesOnly = retryConfiguration.onMessageTooLarge === 'claimCheck' && receivedMessage.wrappedMessage.claimCheck === undefined
+  let failedMessage = storeLargeBodiesOnly ? receivedMessage : await checkInMessageBody(retryConfiguration, receivedMessage)
+  const { wrappedMessage } = failedMessage
+  try {
+    let serviceBusMessage = buildRescheduledMessage(retryConfiguration, failedMessage, target)
+    if (storeLargeBodiesOnly && isTooLarge(retryConfiguration, serviceBusMessage)) {
+      logEvent(retryConfiguration, 'debug', { event: 'claimCheckStored', message: 'Rescheduled message is too large, storing the body in the stateStore', ...getMessageLogFields(failedMessage) }, context)
+      failedMessage = await checkInMessageBody(retryConfiguration, failedMessage)
+      serviceBusMessage = buildRescheduledMessage(retryConfiguration, failedMessage, target)
+    }
+    if (isTooLarge(retryConfiguration, serviceBusMessage)) {
+      logEvent(retryConfiguration, 'info', { event: 'messageTooLarge', message: 'Rescheduled message is too large', ...getMessageLogFields(failedMessage) }, context)
+      throw new RetryMessageTooLargeError(wrappedMessage.originalBindingData?.messageId as string, failedMessage.currentMessageId, estimateMessageSize(serviceBusMessage), retryConfiguration.maxMessageSizeBytes as number, failedMessage.error)
+    }
+    serviceBusMessage.messageId = messageId
+    serviceBusMessage.scheduledEnqueueTimeUtc = scheduledTime
     serviceBusMessage.timeToLive = timeToLive
+    const telemetry = await getTelemetry(retryConfiguration)
+    serviceBusMessage.applicationProperties ??= {}
+    telemetry.injectTraceContext(serviceBusMessage.applicationProperties)
+    throwErrorIfLockLost(retryConfiguration, context, failedMessage)
+
+    logEvent(retryConfiguration, 'info', {
+      event: 'retryScheduled',
+      message: 'Rescheduling message',
+      ...getMessageLogFields(failedMessage),
+      delaySeconds: Math.round((scheduledTime.getTime() - Date.now()) / 1000),
+      scheduledTime: scheduledTime.toISOString(),
+    }, context)
+    const [sequenceNumber] = await target.sender.scheduleMessages(serviceBusMessage, scheduledTime)
+    await recordScheduledRetry(context, target, failedMessage, sequenceNumber, scheduledTime)
+    telemetry.recordRetryScheduled(getMetricAttributes(target), (scheduledTime.getTime() - Date.now()) / 1000)
+    await runHook(retryConfiguration, context, 'onRetryScheduled', () => target.hooks?.onRetryScheduled?.({
+      message: receivedMessage.wrappedMessage.message,
+      context,
+      error: receivedMessage.error,
+      scheduledTime,
+      sequenceNumber,
+      publishCount: wrappedMessage.publishCount + 1,
+    }))
+    if (messageId !== undefined) {
+      target.dedupeCache?.add(messageId)
+    }
+    const holdBackKey = getHoldBackKey(target, failedMessage)
+    if (holdBackKey !== undefined) {
+      await target.sessionHoldBack?.holdBack(...holdBackKey, scheduledTime)
+    }
+  } catch (error) {
+    // The body was stored for this reschedule only, so remove it again
+    if (receivedMessage.wrappedMessage.claimCheck === undefined) {
+      await releaseClaimCheck(retryConfiguration, failedMessage)
+    }
+    throw error
   }
 }
 
-function buildRetryInvocationContextAndMessage<T>(originalContext: InvocationContext, message: T | ServiceBusRetryMessageWrapper<T>): { context: ServiceBusRetryInvocationContext, unwrappedMessage: T } {
-  const context = originalContext as ServiceBusRetryInvocationContext
-  let unwrappedMessage: T
-  if (typeof message === 'object' && message !== null && 'publishCount' in message) {
-    const wrappedMessage = message
-    unwrappedMessage = wrappedMessage.message
-    context.publishCount = wrappedMessage.publishCount
-    context.originalBindingData = wrappedMessage.originalBindingData
-    context.debug(`SRBLIB: Processing message with originalMessageId: ${wrappedMessage.originalBindingData?.messageId} and publishcount: ${wrappedMessage.publishCount}`)
+async function recordScheduledRetry<T>(context: InvocationContext, target: RetryTarget, failedMessage: FailedMessage<T>, sequenceNumber: SequenceNumber | undefined, scheduledTime: Date): Promise<void> {
+  if (sequenceNumber === undefined) {
+    return
+  }
+  if (failedMessage.batchIndex !== undefined) {
+    (context as ServiceBusRetryBatchInvocationContext).scheduledSequenceNumbers[failedMessage.batchIndex] = sequenceNumber
+  } else {
+    (context as ServiceBusRetryInvocationContext).scheduledSequenceNumber = sequenceNumber
+  }
+  const originalMessageId = failedMessage.wrappedMessage.originalBindingData?.messageId
+  if (originalMessageId !== undefined) {
+    await addScheduledRetry(target.scheduledRetryIndex, originalMessageId, { functionName: target.functionName, sequenceNumber, scheduledTime })
+  }
+}
+
+/**
+ * A received retry is no longer scheduled, so it can not be cancelled anymore.
+ */
+async function forgetScheduledRetry<T>(target: RetryTarget, receivedMessage: ReceivedMessage<T>): Promise<void> {
+  const { publishCount, originalBindingData } = receivedMessage.wrappedMessage
+  if (publishCount > 1 && originalBindingData?.messageId !== undefined) {
+    await removeScheduledRetries(target.scheduledRetryIndex, originalBindingData.messageId, target.functionName)
+  }
+}
+
+function getTelemetry(retryConfiguration: ServiceBusRetryConfiguration): Promise<RetryTelemetry> {
+  return getRetryTelemetry(retryConfiguration.openTelemetry !== false)
+}
+
+function getSpanAttributes<T>(target: RetryTarget, receivedMessage?: ReceivedMessage<T>): Record<string, string | number> {
+  const attributes: Record<string, string | number> = { ...getMetricAttributes(target), 'messaging.system': 'servicebus' }
+  if (receivedMessage !== undefined) {
+    attributes['messaging.message.id'] = receivedMessage.currentMessageId
+    attributes['servicebus.retry.publish_count'] = receivedMessage.wrappedMessage.publishCount
+  }
+  return attributes
+}
+
+function getMetricAttributes(target: RetryTarget): Record<string, string> {
+  return { 'faas.name': target.functionName }
+}
+
+function getMessageLogFields<T>(receivedMessage: ReceivedMessage<T>): Pick<RetryLogEvent, 'originalMessageId' | 'currentMessageId' | 'publishCount'> {
+  const { wrappedMessage, currentMessageId } = receivedMessage
+  return { originalMessageId: wrappedMessage.originalBindingData?.messageId, currentMessageId, publishCount: wrappedMessage.publishCount }
+}
+
+/**
+ * Returns a messageId that is the same each time a message is rescheduled after the same attempt, so that duplicate
+ * detection can drop a retry that is scheduled twice. The enqueued time of the original message keeps the retries of a
+ * message that is sent again with the same messageId, such as a message replayed from a parking lot, apart from the
+ * retries of the earlier run. Topic triggers add the subscription name, as each subscription reschedules its own retry
+ * on the same topic.
+ */
+function getRetryMessageId<T>(receivedMessage: ReceivedMessage<T>, target: RetryTarget): string | undefined {
+  const { wrappedMessage } = receivedMessage
+  const originalMessageId = wrappedMessage.originalBindingData?.messageId ?? receivedMessage.currentMessageId
+  if (originalMessageId === undefined) {
+    return undefined
+  }
+  const enqueuedTimeUtc = wrappedMessage.originalBindingData?.enqueuedTimeUtc
+  const enqueuedTimePart = enqueuedTimeUtc !== undefined ? `-${enqueuedTimeUtc.replace(/\D/g, '')}` : ''
+  const subscriptionPart = target.subscriptionName !== undefined ? `-${target.subscriptionName}` : ''
+  const messageId = `${originalMessageId}${enqueuedTimePart}${subscriptionPart}-retry-${wrappedMessage.publishCount + 1}`
+  return messageId.length <= MAX_MESSAGE_ID_LENGTH ? messageId : createHash('sha256').update(messageId).digest('hex')
+}
+
+function getLockedUntil(retryConfiguration: ServiceBusRetryConfiguration, receivedTime: number): number | undefined {
+  const { lockDurationSeconds } = retryConfiguration
+  return lockDurationSeconds !== undefined ? receivedTime + lockDurationSeconds * 1000 : undefined
+}
+
+function throwErrorIfLockLost<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, failedMessage: FailedMessage<T>): void {
+  const { lockedUntil, wrappedMessage, currentMessageId } = failedMessage
+  if (lockedUntil !== undefined && Date.now() > lockedUntil - LOCK_MARGIN_MILLISECONDS) {
+    logEvent(retryConfiguration, 'info', { event: 'lockLost', message: 'Message lock is lost or about to expire, not rescheduling message', ...getMessageLogFields(failedMessage) }, context)
+    throw new MessageLockLostError(wrappedMessage.originalBindingData?.messageId as string, currentMessageId, failedMessage.error)
+  }
+}
+
+/**
+ * Stores the message body in the state store, if one is configured, and replaces it with a claim-check reference.
+ * The body is only stored on the first reschedule; later reschedules reuse the reference.
+ */
+async function checkInMessageBody<T>(retryConfiguration: ServiceBusRetryConfiguration, failedMessage: FailedMessage<T>): Promise<FailedMessage<T>> {
+  const { stateStore } = retryConfiguration
+  const { wrappedMessage } = failedMessage
+  if (stateStore === undefined) {
+    return failedMessage
+  }
+  const claimCheck = wrappedMessage.claimCheck ?? randomUUID()
+  if (wrappedMessage.claimCheck === undefined) {
+    await stateStore.save(claimCheck, wrappedMessage.message)
+  }
+  return { ...failedMessage, wrappedMessage: { ...wrappedMessage, message: undefined as T, claimCheck } }
+}
+
+/**
+ * Looks up the message body for a message that carries a claim-check reference.
+ */
+async function checkOutMessageBody<T>(retryConfiguration: ServiceBusRetryConfiguration, retryMetadata: ServiceBusRetryMetadata, message: T): Promise<T> {
+  const { claimCheck } = retryMetadata
+  if (claimCheck === undefined) {
+    return message
+  }
+  if (retryConfiguration.stateStore === undefined) {
+    throw new NonRetryableError(`Message carries claim-check reference ${claimCheck}, but no stateStore is configured`)
+  }
+  const body = await retryConfiguration.stateStore.load(claimCheck)
+  if (body === undefined) {
+    throw new NonRetryableError(`No message body found for claim-check reference ${claimCheck}`)
+  }
+  return body as T
+}
+
+async function releaseClaimCheck<T>(retryConfiguration: ServiceBusRetryConfiguration, receivedMessage: ReceivedMessage<T>): Promise<void> {
+  const { claimCheck } = receivedMessage.wrappedMessage
+  if (claimCheck !== undefined) {
+    await retryConfiguration.stateStore?.delete(claimCheck)
+  }
+}
+
+/**
+ * Releases the session of a message that completed or is exhausted, so the next message of the session is processed.
+ */
+async function releaseSession<T>(target: RetryTarget, receivedMessage: ReceivedMessage<T>): Promise<void> {
+  const holdBackKey = getHoldBackKey(target, receivedMessage)
+  if (holdBackKey !== undefined) {
+    await target.sessionHoldBack?.release(...holdBackKey)
+  }
+}
+
+/**
+ * Finishes a message that was processed successfully.
+ */
+async function completeMessage<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, target: RetryTarget, receivedMessage: ReceivedMessage<T>): Promise<void> {
+  const { message, publishCount } = receivedMessage.wrappedMessage
+  if (publishCount > 1) {
+    await runHook(retryConfiguration, context, 'onSuccessAfterRetry', () => target.hooks?.onSuccessAfterRetry?.({ message, context, publishCount }))
+  }
+  await releaseClaimCheck(retryConfiguration, receivedMessage)
+  await releaseSession(target, receivedMessage)
+}
+
+/**
+ * Finishes a message that can not be retried anymore, once it is dead-lettered or forwarded, or before its error is
+ * thrown.
+ */
+async function finishExhausted<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, target: RetryTarget, receivedMessage: ReceivedMessage<T>, error: unknown, reason: DeadLetterReason): Promise<void> {
+  const { message } = receivedMessage.wrappedMessage
+  const telemetry = await getTelemetry(retryConfiguration)
+  if (reason === 'MessageExpired') {
+    telemetry.recordExpired(getMetricAttributes(target))
+    await runHook(retryConfiguration, context, 'onExpired', () => target.hooks?.onExpired?.({ message, context, error }))
   } else {
-    unwrappedMessage = message
-    context.publishCount = 1
-    context.originalBindingData = {
-      messageId: context.triggerMetadata?.messageId as string,
-      expiresAtUtc: context.triggerMetadata?.expiresAtUtc as string,
-      enqueuedTimeUtc: context.triggerMetadata?.enqueuedTimeUtc as string,
+    telemetry.recordExhausted({ ...getMetricAttributes(target), 'servicebus.retry.reason': reason })
+    await runHook(retryConfiguration, context, 'onExhausted', () => target.hooks?.onExhausted?.({ message, context, error, reason }))
+  }
+  // The stored body is kept: a dead-lettered or redelivered message still only carries the claim-check reference
+  await releaseSession(target, receivedMessage)
+}
+
+async function finishIfExhausted<T>(retryConfiguration: ServiceBusRetryConfiguration, context: InvocationContext, target: RetryTarget, receivedMessage: ReceivedMessage<T>, error: unknown): Promise<void> {
+  const reason = getExhaustedReason(error)
+  if (reason !== undefined) {
+    await finishExhausted(retryConfiguration, context, target, receivedMessage, error, reason)
+  }
+}
+
+/**
+ * Returns the sessionId and original messageId under which a message holds back its session, when hold-back is
+ * configured and the message is on a session.
+ */
+function getHoldBackKey<T>(target: RetryTarget, receivedMessage: ReceivedMessage<T>): [string, string] | undefined {
+  const { sessionId } = receivedMessage.properties
+  const originalMessageId = receivedMessage.wrappedMessage.originalBindingData?.messageId
+  if (target.sessionHoldBack === undefined || sessionId === undefined || originalMessageId === undefined) {
+    return undefined
+  }
+  return [sessionId, originalMessageId]
+}
+
+function buildRescheduledMessage<T>(retryConfiguration: ServiceBusRetryConfiguration, failedMessage: FailedMessage<T>, target: RetryTarget): ServiceBusMessage {
+  const preservedProperties = selectPreservedProperties(failedMessage.properties, retryConfiguration.preserveMessageProperties)
+  const envelopeMessage = retryConfiguration.envelope === 'applicationProperties'
+    ? buildPropertiesEnvelopeMessage(failedMessage)
+    : buildBodyEnvelopeMessage(failedMessage)
+  const serviceBusMessage: ServiceBusMessage = {
+    ...preservedProperties,
+    ...envelopeMessage,
+    applicationProperties: { ...preservedProperties.applicationProperties, ...envelopeMessage.applicationProperties },
+  }
+  if (target.subscriptionName !== undefined) {
+    serviceBusMessage.applicationProperties = { ...serviceBusMessage.applicationProperties, [RETRY_TARGET_SUBSCRIPTION_PROPERTY]: target.subscriptionName }
+  }
+  // Messages on a session queue or subscription can not be scheduled without a sessionId
+  if (target.sessionsEnabled === true) {
+    serviceBusMessage.sessionId = failedMessage.properties.sessionId
+  }
+  return serviceBusMessage
+}
+
+function isTooLarge(retryConfiguration: ServiceBusRetryConfiguration, serviceBusMessage: ServiceBusMessage): boolean {
+  const { maxMessageSizeBytes } = retryConfiguration
+  return maxMessageSizeBytes !== undefined && estimateMessageSize(serviceBusMessage) > maxMessageSizeBytes
+}
+
+function buildBodyEnvelopeMessage<T>(failedMessage: FailedMessage<T>): ServiceBusMessage {
+  const { message, ...retryMetadata } = failedMessage.wrappedMessage
+  return {
+    body: encodeRetryMessageWrapper(message, {
+      ...retryMetadata,
+      publishCount: retryMetadata.publishCount + 1,
+      failureHistory: retryMetadata.failureHistory ?? [],
+    }),
+    contentType: 'application/json',
+  }
+}
+
+/**
+ * Returns the body to send for an unwrapped message. The SDK JSON encodes anything that is not a Buffer, which would add
+ * quotes around string bodies, such as plain text or XML.
+ */
+function toMessageBody(message: unknown): unknown {
+  return typeof message === 'string' ? Buffer.from(message) : message
+}
+
+function buildPropertiesEnvelopeMessage<T>(failedMessage: FailedMessage<T>): ServiceBusMessage {
+  const { wrappedMessage, properties } = failedMessage
+  const { message, ...retryMetadata } = wrappedMessage
+  return {
+    contentType: properties.contentType,
+    body: toMessageBody(message),
+    applicationProperties: encodeRetryProperties({
+      ...retryMetadata,
+      publishCount: wrappedMessage.publishCount + 1,
+      failureHistory: wrappedMessage.failureHistory ?? [],
+    }),
+  }
+}
+
+function getTimeToLive<T>(retryConfiguration: ServiceBusRetryConfiguration, failedMessage: FailedMessage<T>): number | undefined {
+  const { originalBindingData } = failedMessage.wrappedMessage
+  if (retryConfiguration.preserveExpiresAt === false || originalBindingData.expiresAtUtc === undefined) {
+    return undefined
+  }
+  const expiryDateTime = fromZonedTime(originalBindingData.expiresAtUtc, 'UTC')
+  const timeToLive = expiryDateTime.getTime() - Date.now()
+  if (timeToLive <= 0) {
+    throw new MessageExpiredError(originalBindingData?.messageId as string, failedMessage.currentMessageId, failedMessage.error)
+  }
+  return timeToLive
+}
+
+function setRetryContext<T>(retryConfiguration: ServiceBusRetryConfiguration, context: ServiceBusRetryInvocationContext, retryMetadata: ServiceBusRetryMessageWrapper<T>): void {
+  context.publishCount = retryMetadata.publishCount
+  context.originalBindingData = retryMetadata.originalBindingData
+  context.failureHistory = retryMetadata.failureHistory ?? []
+  logEvent(retryConfiguration, 'debug', {
+    event: 'messageReceived',
+    message: retryMetadata.publishCount > 1 ? 'Processing retry of message' : 'Processing first execution of message',
+    originalMessageId: retryMetadata.originalBindingData?.messageId,
+    currentMessageId: context.triggerMetadata?.messageId as string | undefined,
+    publishCount: retryMetadata.publishCount,
+  }, context)
+}
+
+/**
+ * Unwraps a received message and looks up its body in the state store. The wrapped message of the received message is
+ * replaced as soon as the retry metadata is decoded, so a message whose body can not be found fails with its metadata.
+ */
+async function unwrapReceivedMessage<T>(retryConfiguration: ServiceBusRetryConfiguration, receivedMessage: ReceivedMessage<T>, message: unknown, currentBindingData: ServiceBusBindingData, applicationProperties: unknown): Promise<ServiceBusRetryMetadata> {
+  const { unwrappedMessage, retryMetadata } = unwrapMessage(message as T | ServiceBusRetryMessageWrapper<T>, currentBindingData, applicationProperties)
+  receivedMessage.wrappedMessage = { message: unwrappedMessage, ...retryMetadata }
+  receivedMessage.wrappedMessage.message = await checkOutMessageBody(retryConfiguration, retryMetadata, unwrappedMessage)
+  return retryMetadata
+}
+
+/**
+ * Unwraps the messages of a batch. Messages that can not be unwrapped or do not pass the schema are left out of the
+ * batch, and returned as invalid messages with the error, for instance a MessageValidationError.
+ */
+async function buildRetryBatchInvocationContextAndMessages<T>(originalContext: InvocationContext, messages: unknown[], target: RetryTarget, retryConfiguration: ServiceBusRetryConfiguration, receivedTime: number): Promise<{ context: ServiceBusRetryBatchInvocationContext, unwrappedMessages: T[], receivedMessages: ReceivedMessage<T>[], invalidMessages: FailedMessage<T>[] }> {
+  const context = originalContext as ServiceBusRetryBatchInvocationContext
+  const metadata = context.triggerMetadata
+
+  const unwrappedMessages: T[] = []
+  const receivedMessages: ReceivedMessage<T>[] = []
+  const invalidMessages: FailedMessage<T>[] = []
+  context.retryMetadata = []
+  context.scheduledSequenceNumbers = []
+  for (const [index, message] of messages.entries()) {
+    const currentBindingData = getBindingData(metadata, index)
+    if (isRetryForOtherSubscription(getTriggerMetadataValue(metadata, 'applicationProperties', index), target.subscriptionName)) {
+      logEvent(retryConfiguration, 'debug', { event: 'messageIgnored', message: 'Ignoring retry message targeted at another subscription', currentMessageId: currentBindingData.messageId }, context)
+      continue
+    }
+    // Until the message is unwrapped, it is failed as received, so that one bad envelope does not fail the batch.
+    let retryMetadata = getFirstAttemptMetadata(currentBindingData)
+    const receivedMessage: ReceivedMessage<T> = {
+      wrappedMessage: { message: message as T, ...retryMetadata },
+      currentMessageId: currentBindingData.messageId as string,
+      lockToken: getTriggerMetadataValue(metadata, 'lockToken', index) as string | undefined,
+      properties: getMessageProperties(metadata, index),
+      receivedTime,
+      lockedUntil: getLockedUntil(retryConfiguration, receivedTime),
+    }
+    try {
+      retryMetadata = await unwrapReceivedMessage(retryConfiguration, receivedMessage, message, currentBindingData, getTriggerMetadataValue(metadata, 'applicationProperties', index))
+      unwrappedMessages.push(parseMessage(target.schema, receivedMessage, receivedMessage.wrappedMessage.message))
+    } catch (error) {
+      invalidMessages.push(recordFailure(receivedMessage, error))
+      continue
     }
-    context.debug(`SRBLIB: Processing first execution of message with id: ${context.triggerMetadata?.messageId}`)
+    context.retryMetadata.push(retryMetadata)
+    receivedMessages.push({ ...receivedMessage, batchIndex: receivedMessages.length })
+  }
+  logEvent(retryConfiguration, 'debug', { event: 'batchReceived', message: `Processing batch of ${unwrappedMessages.length} message(s)` }, context)
+  return { context, unwrappedMessages, receivedMessages, invalidMessages }
+}
+
+function getBindingData(triggerMetadata: Record<string, unknown> | undefined, index?: number): ServiceBusBindingData {
+  const { correlationId, subject, replyTo, partitionKey, sessionId, applicationProperties } = getMessageProperties(triggerMetadata, index)
+  return {
+    messageId: getTriggerMetadataValue(triggerMetadata, 'messageId', index) as string | undefined,
+    expiresAtUtc: getTriggerMetadataValue(triggerMetadata, 'expiresAtUtc', index) as string | undefined,
+    enqueuedTimeUtc: getTriggerMetadataValue(triggerMetadata, 'enqueuedTimeUtc', index) as string | undefined,
+    correlationId: correlationId as string | undefined,
+    subject,
+    replyTo,
+    partitionKey,
+    sessionId,
+    applicationProperties,
+  }
+}
+
+/**
+ * Unwraps a received message. Messages that are not a retry are the first attempt of an original message.
+ */
+function unwrapMessage<T>(message: T | ServiceBusRetryMessageWrapper<T>, currentBindingData: ServiceBusBindingData, applicationProperties: unknown): { unwrappedMessage: T, retryMetadata: ServiceBusRetryMetadata } {
+  const decoded = decodeRetryEnvelope(message, applicationProperties as Record<string, unknown> | undefined)
+  if (decoded !== undefined) {
+    return { unwrappedMessage: decoded.message, retryMetadata: decoded.retryMetadata }
+  }
+  return { unwrappedMessage: message as T, retryMetadata: getFirstAttemptMetadata(currentBindingData) }
+}
+
+function getFirstAttemptMetadata(currentBindingData: ServiceBusBindingData): ServiceBusRetryMetadata {
+  return { publishCount: 1, originalBindingData: currentBindingData, failureHistory: [] }
+}
+
+/**
+ * Validates a message with the schema from the function options, and returns the message as the handler receives it.
+ */
+function parseMessage<T>(schema: MessageSchema<unknown> | undefined, receivedMessage: ReceivedMessage<T>, message: T): T {
+  if (schema === undefined) {
+    return message
+  }
+  try {
+    return (typeof schema === 'function' ? schema(message) : schema.parse(message)) as T
+  } catch (error) {
+    const { wrappedMessage, currentMessageId } = receivedMessage
+    throw new MessageValidationError(wrappedMessage.originalBindingData?.messageId as string, currentMessageId, error)
+  }
+}
+
+function recordFailure<T>(receivedMessage: ReceivedMessage<T>, error: unknown): FailedMessage<T> {
+  const failure: ServiceBusRetryFailure = {
+    name: error instanceof Error ? error.name : typeof error,
+    message: (error instanceof Error ? error.message : String(error)).slice(0, MAX_FAILURE_MESSAGE_LENGTH),
+    timestamp: new Date().toISOString(),
+  }
+  const failureHistory = [...receivedMessage.wrappedMessage.failureHistory ?? [], failure].slice(-MAX_FAILURE_HISTORY_LENGTH)
+  return {
+    ...receivedMessage,
+    wrappedMessage: { ...receivedMessage.wrappedMessage, failureHistory },
+    error,
   }
-  return { context, unwrappedMessage }
 }
@@ -0,0 +1,91 @@
+/**
+ * The hold-back state of a session.
+ *
+ * @property blockingMessageId - The original messageId of the message that is being retried.
+ * @property heldBackUntil - The time the retry of the blocking message is scheduled, in milliseconds since the epoch.
+ */
+export type SessionHoldBackState = {
+  blockingMessageId: string
+  heldBackUntil: number
+}
+
+/**
+ * Stores the hold-back state of sessions. Implement this on top of a shared store, such as a cache or a database, when
+ * sessions can move between function instances. Without a shared store, each instance has its own state.
+ */
+export type SessionStateStore = {
+  get(key: string): Promise<SessionHoldBackState | undefined>
+  set(key: string, state: SessionHoldBackState): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * @property holdBack - Optional: Whether later messages in a session are held back while a message in the session is
+ * being retried (default: false).
+ * @property stateStore - Optional: Where the hold-back state of sessions is kept (default: in memory, per function
+ * instance).
+ */
+export type SessionRetryConfiguration = {
+  holdBack?: boolean
+  stateStore?: SessionStateStore
+}
+
+export type SessionHoldBack = {
+  getHeldBackUntil(sessionId: string, originalMessageId: string): Promise<Date | undefined>
+  holdBack(sessionId: string, originalMessageId: string, until: Date): Promise<void>
+  release(sessionId: string, originalMessageId: string): Promise<void>
+}
+
+export class InMemorySessionStateStore implements SessionStateStore {
+  private readonly states = new Map<string, SessionHoldBackState>()
+
+  async get(key: string): Promise<SessionHoldBackState | undefined> {
+    return this.states.get(key)
+  }
+
+  async set(key: string, state: SessionHoldBackState): Promise<void> {
+    this.states.set(key, state)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key)
+  }
+}
+
+// Held back messages are scheduled a little after the retry of the blocking message, so that the retry goes first
+const HOLD_BACK_OFFSET_MILLISECONDS = 5000
+// A session is no longer held back when the retry of the blocking message did not arrive within this time, for
+// instance because it was dead-lettered by Service Bus, so that the session can not be blocked forever
+const STALE_HOLD_BACK_MILLISECONDS = 300_000
+
+/**
+ * Creates a session hold-back that keeps the state of each session under the given key prefix. A session is held back
+ * by the first message in it that is rescheduled, until that message completes or is exhausted.
+ */
+export function createSessionHoldBack(keyPrefix: string, configuration: SessionRetryConfiguration): SessionHoldBack {
+  const stateStore = configuration.stateStore ?? new InMemorySessionStateStore()
+  const getKey = (sessionId: string): string => `${keyPrefix}:${sessionId}`
+  const isHeldBackByOtherMessage = (state: SessionHoldBackState | undefined, originalMessageId: string): state is SessionHoldBackState =>
+    state !== undefined && state.blockingMessageId !== originalMessageId && state.heldBackUntil >= Date.now() - STALE_HOLD_BACK_MILLISECONDS
+  return {
+    async getHeldBackUntil(sessionId, originalMessageId) {
+      const state = await stateStore.get(getKey(sessionId))
+      if (!isHeldBackByOtherMessage(state, originalMessageId)) {
+        return undefined
+      }
+      return new Date(Math.max(state.heldBackUntil, Date.now()) + HOLD_BACK_OFFSET_MILLISECONDS)
+    },
+    async holdBack(sessionId, originalMessageId, until) {
+      const state = await stateStore.get(getKey(sessionId))
+      if (!isHeldBackByOtherMessage(state, originalMessageId)) {
+        await stateStore.set(getKey(sessionId), { blockingMessageId: originalMessageId, heldBackUntil: until.getTime() })
+      }
+    },
+    async release(sessionId, originalMessageId) {
+      const state = await stateStore.get(getKey(sessionId))
+      if (state?.blockingMessageId === originalMessageId) {
+        await stateStore.delete(getKey(sessionId))
+      }
+    },
+  }
+}
@@ -0,0 +1,106 @@
+import type * as OpenTelemetryApi from '@opentelemetry/api'
+
+type OpenTelemetry = typeof OpenTelemetryApi
+type Carrier = Record<string, unknown>
+type Attributes = Record<string, string | number>
+
+/**
+ * Traces and metrics for the retry flow, through `@opentelemetry/api`. When that package is not installed, or
+ * telemetry is disabled, all methods do nothing.
+ */
+export type RetryTelemetry = {
+  /**
+   * Runs fn in an active consumer span. The span is a child of the trace context in parentCarrier, and is linked to the
+   * trace contexts in linkCarriers.
+   */
+  withSpan<R>(name: string, attributes: Attributes, parentCarrier: Carrier | undefined, linkCarriers: (Carrier | undefined)[], fn: () => Promise<R>): Promise<R>
+  recordError(error: unknown): void
+  injectTraceContext(carrier: Carrier): void
+  recordRetryScheduled(attributes: Attributes, delaySeconds: number): void
+  recordExhausted(attributes: Attributes): void
+  recordExpired(attributes: Attributes): void
+}
+
+const INSTRUMENTATION_NAME = '@joost_lambregts/azure-functions-servicebus-retries'
+
+const carrierGetter: OpenTelemetryApi.TextMapGetter<Carrier> = {
+  get: (carrier, key) => {
+    const value = carrier[key]
+    return typeof value === 'string' ? value : undefined
+  },
+  keys: carrier => Object.keys(carrier),
+}
+
+const noopTelemetry: RetryTelemetry = {
+  withSpan: (_name, _attributes, _parentCarrier, _linkCarriers, fn) => fn(),
+  recordError: () => {},
+  injectTraceContext: () => {},
+  recordRetryScheduled: () => {},
+  recordExhausted: () => {},
+  recordExpired: () => {},
+}
+
+let openTelemetryTelemetry: Promise<RetryTelemetry> | undefined
+
+/**
+ * Returns the telemetry of the library. `@opentelemetry/api` is loaded once, on first use.
+ */
+export function getRetryTelemetry(enabled: boolean): Promise<RetryTelemetry> {
+  if (!enabled) {
+    return Promise.resolve(noopTelemetry)
+  }
+  openTelemetryTelemetry ??= import('@opentelemetry/api')
+    .then(createOpenTelemetryTelemetry)
+    .catch(() => noopTelemetry)
+  return openTelemetryTelemetry
+}
+
+function createOpenTelemetryTelemetry(openTelemetry: OpenTelemetry): RetryTelemetry {
+  const { context, propagation, trace, metrics, SpanKind, SpanStatusCode } = openTelemetry
+  const tracer = trace.getTracer(INSTRUMENTATION_NAME)
+  const meter = metrics.getMeter(INSTRUMENTATION_NAME)
+  const retriesScheduled = meter.createCounter('servicebus.retry.scheduled', { description: 'Number of rescheduled messages' })
+  const retriesExhausted = meter.createCounter('servicebus.retry.exhausted', { description: 'Number of messages that can not be retried anymore' })
+  const retriesExpired = meter.createCounter('servicebus.retry.expired', { description: 'Number of messages that expired before they could be retried' })
+  const backoffDelay = meter.createHistogram('servicebus.retry.delay', { description: 'Delay of rescheduled messages', unit: 's' })
+
+  const extract = (carrier: Carrier): OpenTelemetryApi.Context => propagation.extract(context.active(), carrier, carrierGetter)
+  return {
+    withSpan(name, attributes, parentCarrier, linkCarriers, fn) {
+      const parentContext = parentCarrier !== undefined ? extract(parentCarrier) : context.active()
+      const links = linkCarriers
+        .map(carrier => carrier !== undefined ? trace.getSpanContext(extract(carrier)) : undefined)
+        .filter((spanContext): spanContext is OpenTelemetryApi.SpanContext => spanContext !== undefined && trace.isSpanContextValid(spanContext))
+        .map(spanContext => ({ context: spanContext }))
+      return tracer.startActiveSpan(name, { kind: SpanKind.CONSUMER, attributes, links }, parentContext, async span => {
+        try {
+          return await fn()
+        } catch (error) {
+          span.recordException(error as Error)
+          span.setStatus({ code: SpanStatusCode.ERROR })
+          throw error
+        } finally {
+          span.end()
+        }
+      })
+    },
+    recordError(error) {
+      const span = trace.getActiveSpan()
+      span?.recordException(error as Error)
+      span?.setStatus({ code: SpanStatusCode.ERROR })
+    },
+    injectTraceContext(carrier) {
+      propagation.inject(context.active(), carrier)
+    },
+    recordRetryScheduled(attributes, delaySeconds) {
+      retriesScheduled.add(1, attributes)
+      backoffDelay.record(delaySeconds, attributes)
+    },
+    recordExhausted(attributes) {
+      retriesExhausted.add(1, attributes)
+    },
+    recordExpired(attributes) {
+      retriesExpired.add(1, attributes)
+    },
+  }
+}
@@ -1,3 +1,12 @@
 
 export * from './implementation/serviceBusRetryTrigger.js'
-export { MaxRetriesReachedError, MessageExpiredError } from './util/error.js'
+export type { RetryStrategy, RetryStrategyFunction } from './implementation/backoff.js'
+export type { RetryExhaustedEvent, RetryExpiredEvent, RetryHookEvent, RetryLifecycleHooks, RetryScheduledEvent, SuccessAfterRetryEvent } from './implementation/hooks.js'
+export type { DeadLetterReason } from './implementation/deadLetter.js'
+export { defaultLogger, type LoggingConfiguration, type LogLevel, type RetryLogEvent, type RetryLogEventType, type RetryLogger } from './implementation/logger.js'
+export { InMemoryRetryStateStore, FileSystemRetryStateStore, type RetryStateStore } from './implementation/retryStateStore.js'
+export { InMemoryScheduledRetryIndex, type ScheduledRetry, type ScheduledRetryIndex, type SequenceNumber } from './implementation/scheduledRetryIndex.js'
+export { InMemorySessionStateStore, type SessionHoldBackState, type SessionRetryConfiguration, type SessionStateStore } from './implementation/sessionHoldBack.js'
+export { InMemoryCircuitBreakerStateStore, type CircuitBreakerConfiguration, type CircuitBreakerState, type CircuitBreakerStateStore } from './implementation/circuitBreaker.js'
+export { decodeRetryEnvelope, decodeRetryProperties, encodeRetryMessageWrapper, encodeRetryProperties, isRetryMessageWrapper, RETRY_SCHEMA_VERSION, RETRY_WRAPPER_TYPE, type DecodedRetryEnvelope, type ServiceBusBindingData, type ServiceBusRetryFailure, type ServiceBusRetryMessageWrapper, type ServiceBusRetryMetadata, type RetryEnvelope } from './implementation/envelope.js'
+export { MaxRetriesReachedError, MessageExpiredError, MessageLockLostError, MessageValidationError, RetryBudgetExceededError, RetryMessageTooLargeError, UnsupportedRetrySchemaVersionError, NonRetryableError, RetryAfterError, BatchProcessingError, type BatchMessageFailure } from './util/error.js'
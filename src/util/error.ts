@@ -1,5 +1,5 @@
 export class CustomError extends Error {
-  constructor(message: string, cause?: Error) {
+  constructor(message: string, cause?: unknown) {
     super(message, { cause })
 
     // assign the error class name in custom error
@@ -11,13 +11,110 @@ export class CustomError extends Error {
 }
 
 export class MaxRetriesReachedError extends CustomError {
-  constructor (originalMessageId: string, currentMessageId: string) {
-    super(`Max retries reached for original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`)
+  constructor (originalMessageId: string, currentMessageId: string, cause?: unknown) {
+    super(`Max retries reached for original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`, cause)
   }
 }
 
 export class MessageExpiredError extends CustomError {
-  constructor (originalMessageId: string, currentMessageId: string) {
-    super(`Scheduled time for message is after message expiry for original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`)
+  constructor (originalMessageId: string, currentMessageId: string, cause?: unknown) {
+    super(`Scheduled time for message is after message expiry for original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`, cause)
   }
-}
\ No newline at end of file
+}
+export class RetryBudgetExceededError extends CustomError {
+  constructor (originalMessageId: string, currentMessageId: string, cause?: unknown) {
+    super(`Next retry would be scheduled after the retry budget for original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`, cause)
+  }
+}
+
+/**
+ * Thrown instead of rescheduling a message when its lock is lost or about to expire, so that the retry is only
+ * scheduled by the invocation that receives the redelivered message.
+ */
+export class MessageLockLostError extends CustomError {
+  constructor (originalMessageId: string, currentMessageId: string, cause?: unknown) {
+    super(`Message lock is lost or about to expire, not rescheduling original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`, cause)
+  }
+}
+
+/**
+ * Thrown when a rescheduled message would be larger than `retryConfiguration.maxMessageSizeBytes`.
+ */
+export class RetryMessageTooLargeError extends CustomError {
+  readonly originalMessageId: string
+  readonly sizeBytes: number
+  readonly maxSizeBytes: number
+
+  constructor (originalMessageId: string, currentMessageId: string, sizeBytes: number, maxSizeBytes: number, cause?: unknown) {
+    super(`Rescheduled message of ${sizeBytes} bytes exceeds the maximum of ${maxSizeBytes} bytes for original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`, cause)
+    this.originalMessageId = originalMessageId
+    this.sizeBytes = sizeBytes
+    this.maxSizeBytes = maxSizeBytes
+  }
+}
+
+/**
+ * Throw this error from a handler to fail the message immediately, without rescheduling it. Errors for which
+ * `retryConfiguration.shouldRetry` returns false are wrapped in a NonRetryableError, with the original error as cause.
+ */
+export class NonRetryableError extends CustomError {
+  constructor (message: string, cause?: unknown) {
+    super(message, cause)
+  }
+}
+
+/**
+ * Thrown when the unwrapped message does not pass the schema from the function options. The message is failed without
+ * rescheduling it, as it will not become valid by processing it again. The cause is the error thrown by the schema.
+ */
+export class MessageValidationError extends NonRetryableError {
+  constructor (originalMessageId: string, currentMessageId: string, cause?: unknown) {
+    super(`Message validation failed for original messageId / current messageId: ${originalMessageId} / ${currentMessageId}`, cause)
+  }
+}
+
+/**
+ * Thrown when a received message carries a retry envelope with a schema version that this version of the library can
+ * not read, for instance because it was rescheduled by a newer version. The message is not passed to the handler, and
+ * is failed without rescheduling it.
+ */
+export class UnsupportedRetrySchemaVersionError extends NonRetryableError {
+  readonly schemaVersion: number
+
+  constructor (schemaVersion: number, supportedVersions: number[]) {
+    super(`Retry envelope schema version ${schemaVersion} is not supported, supported versions: ${supportedVersions.join(', ')}`)
+    this.schemaVersion = schemaVersion
+  }
+}
+
+/**
+ * Throw this error from a handler to reschedule the message after the given number of seconds, or at the given time,
+ * instead of after the delay from the retry strategy. Use it to honor the Retry-After header of a rate limited API.
+ * The delay is capped at `retryConfiguration.maxDelaySeconds`.
+ */
+export class RetryAfterError extends CustomError {
+  readonly retryAfter: number | Date
+
+  constructor (retryAfter: number | Date, message?: string, cause?: unknown) {
+    super(message ?? `Retry after ${retryAfter instanceof Date ? retryAfter.toISOString() : `${retryAfter} seconds`}`, cause)
+    this.retryAfter = retryAfter
+  }
+}
+
+export type BatchMessageFailure = {
+  index: number   // Index of the failed message in the array passed to the batch handler
+  error?: unknown // Optional: the error that caused the message to fail
+}
+
+/**
+ * Thrown by a batch handler to report which messages in the batch failed. Only the failed messages are retried.
+ * Any other error thrown by a batch handler is treated as a failure of all messages in the batch.
+ */
+export class BatchProcessingError extends CustomError {
+  readonly failures: BatchMessageFailure[]
+
+  constructor (failures: BatchMessageFailure[]) {
+    super(`Processing failed for ${failures.length} message(s) in the batch`)
+    this.failures = failures
+  }
+}
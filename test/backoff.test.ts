@@ -1,7 +1,11 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mock } from 'vitest-mock-extended'
+import type { InvocationContext } from '@azure/functions'
 import { calculateBackoffSeconds, RetryConfiguration, RetryStrategy } from '../src/implementation/backoff'
 
 describe('calculateBackoffSeconds', () => {
+    const context = mock<InvocationContext>()
+
     it('should return fixed delay for fixed strategy', () => {
         const config: RetryConfiguration = {
             maxRetries: 5,
@@ -62,6 +66,92 @@ describe('calculateBackoffSeconds', () => {
         expect(result).toBeLessThanOrEqual(1100) // 1000 + 10%
     })
 
+    describe('jitter strategies', () => {
+        afterEach(() => {
+            vi.restoreAllMocks()
+        })
+
+        it('should pick a delay between zero and the exponential delay for full-jitter', () => {
+            const config: RetryConfiguration = { maxRetries: 5, retryStrategy: 'full-jitter', delaySeconds: 10 }
+            vi.spyOn(Math, 'random').mockReturnValue(0)
+            expect(calculateBackoffSeconds(config, 2)).toBe(0)
+            vi.spyOn(Math, 'random').mockReturnValue(0.5)
+            expect(calculateBackoffSeconds(config, 2)).toBe(20) // 0.5 * 10 * 2^2
+        })
+
+        it('should pick a delay between half and the full exponential delay for equal-jitter', () => {
+            const config: RetryConfiguration = { maxRetries: 5, retryStrategy: 'equal-jitter', delaySeconds: 10 }
+            vi.spyOn(Math, 'random').mockReturnValue(0)
+            expect(calculateBackoffSeconds(config, 2)).toBe(20) // 10 * 2^2 / 2
+            vi.spyOn(Math, 'random').mockReturnValue(0.999)
+            expect(calculateBackoffSeconds(config, 2)).toBe(40)
+        })
+
+        it('should cap full-jitter and equal-jitter at maxDelaySeconds', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0.999)
+            expect(calculateBackoffSeconds({ maxRetries: 5, retryStrategy: 'full-jitter', delaySeconds: 10, maxDelaySeconds: 30 }, 5)).toBe(30)
+            expect(calculateBackoffSeconds({ maxRetries: 5, retryStrategy: 'equal-jitter', delaySeconds: 10, maxDelaySeconds: 30 }, 5)).toBe(30)
+        })
+
+        it('should pick a delay between delaySeconds and three times the previous delay for decorrelated-jitter', () => {
+            const config: RetryConfiguration = { maxRetries: 5, retryStrategy: 'decorrelated-jitter', delaySeconds: 10 }
+            vi.spyOn(Math, 'random').mockReturnValue(0)
+            expect(calculateBackoffSeconds(config, 3, { context, lastError: undefined, previousDelaySeconds: 40 })).toBe(10)
+            vi.spyOn(Math, 'random').mockReturnValue(0.5)
+            expect(calculateBackoffSeconds(config, 3, { context, lastError: undefined, previousDelaySeconds: 40 })).toBe(65) // 10 + 0.5 * (120 - 10)
+        })
+
+        it('should use delaySeconds as previous delay for the first decorrelated-jitter retry', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0.5)
+            expect(calculateBackoffSeconds({ maxRetries: 5, retryStrategy: 'decorrelated-jitter', delaySeconds: 10 }, 0)).toBe(20) // 10 + 0.5 * (30 - 10)
+        })
+
+        it('should cap decorrelated-jitter at maxDelaySeconds', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(0.999)
+            expect(calculateBackoffSeconds({ maxRetries: 5, retryStrategy: 'decorrelated-jitter', delaySeconds: 10, maxDelaySeconds: 60 }, 3, { context, lastError: undefined, previousDelaySeconds: 100 })).toBe(60)
+        })
+    })
+
+    describe('custom strategies', () => {
+        it('should call a strategy function with the retry count, context and last error', () => {
+            const error = new Error('Failed')
+            const retryStrategy = vi.fn().mockReturnValue(42)
+            const config: RetryConfiguration = { maxRetries: 5, retryStrategy, delaySeconds: 10, jitter: 0 }
+            expect(calculateBackoffSeconds(config, 2, { context, lastError: error })).toBe(42)
+            expect(retryStrategy).toHaveBeenCalledWith(2, context, error)
+        })
+
+        it('should throw when a strategy function is used without the failed attempt', () => {
+            const config: RetryConfiguration = { maxRetries: 5, retryStrategy: () => 42, delaySeconds: 10 }
+            expect(() => calculateBackoffSeconds(config, 2)).toThrowError('A retry strategy function needs the failed attempt to calculate the delay')
+        })
+
+        it('should throw when a strategy function returns an invalid delay', () => {
+            const config: RetryConfiguration = { maxRetries: 5, retryStrategy: () => NaN, delaySeconds: 10 }
+            expect(() => calculateBackoffSeconds(config, 2, { context, lastError: undefined })).toThrowError('Retry strategy returned an invalid delay: NaN')
+        })
+
+        it('should use the schedule entry for the retry count and repeat the last entry', () => {
+            const config: RetryConfiguration = { maxRetries: 10, retryStrategy: [10, 60, 300, 3600], delaySeconds: 10, jitter: 0 }
+            expect(calculateBackoffSeconds(config, 0)).toBe(10)
+            expect(calculateBackoffSeconds(config, 2)).toBe(300)
+            expect(calculateBackoffSeconds(config, 3)).toBe(3600)
+            expect(calculateBackoffSeconds(config, 7)).toBe(3600)
+        })
+
+        it('should throw for an empty schedule', () => {
+            const config: RetryConfiguration = { maxRetries: 5, retryStrategy: [], delaySeconds: 10 }
+            expect(() => calculateBackoffSeconds(config, 0)).toThrowError('Retry schedule must contain at least one delay')
+        })
+
+        it('should cap custom delays at maxDelaySeconds and apply jitter on top', () => {
+            vi.spyOn(Math, 'random').mockReturnValue(1)
+            expect(calculateBackoffSeconds({ maxRetries: 5, retryStrategy: () => 500, delaySeconds: 10, maxDelaySeconds: 100, jitter: 0.1 }, 0, { context, lastError: undefined })).toBe(110)
+            expect(calculateBackoffSeconds({ maxRetries: 5, retryStrategy: [10, 500], delaySeconds: 10, maxDelaySeconds: 100, jitter: 0.1 }, 1)).toBe(110)
+            vi.restoreAllMocks()
+        })
+    })
+
     it('should throw an error for unknown retry strategy', () => {
         const config: RetryConfiguration = {
             maxRetries: 5,
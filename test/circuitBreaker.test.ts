@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createCircuitBreaker, InMemoryCircuitBreakerStateStore } from '../src/implementation/circuitBreaker'
+
+describe('createCircuitBreaker', () => {
+    const configuration = { failureThreshold: 3, windowSeconds: 60, openSeconds: 30 }
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should be closed initially', async () => {
+        const breaker = createCircuitBreaker('test-function', configuration)
+        expect(await breaker.getOpenUntil()).toBeUndefined()
+    })
+
+    it('should open after the failure threshold is reached within the window', async () => {
+        const breaker = createCircuitBreaker('test-function', configuration)
+        await breaker.recordFailure()
+        await breaker.recordFailure()
+        expect(await breaker.getOpenUntil()).toBeUndefined()
+
+        await breaker.recordFailure()
+        expect(await breaker.getOpenUntil()).toEqual(new Date('2024-01-01T00:00:30Z'))
+    })
+
+    it('should not count failures outside the window', async () => {
+        const breaker = createCircuitBreaker('test-function', configuration)
+        await breaker.recordFailure()
+        await breaker.recordFailure()
+        vi.advanceTimersByTime(61_000)
+
+        await breaker.recordFailure()
+        expect(await breaker.getOpenUntil()).toBeUndefined()
+    })
+
+    it('should reset the failures on success', async () => {
+        const breaker = createCircuitBreaker('test-function', configuration)
+        await breaker.recordFailure()
+        await breaker.recordFailure()
+        await breaker.recordSuccess()
+
+        await breaker.recordFailure()
+        expect(await breaker.getOpenUntil()).toBeUndefined()
+    })
+
+    it('should become half-open after openSeconds and open again on the first failure', async () => {
+        const breaker = createCircuitBreaker('test-function', { ...configuration, failureThreshold: 1 })
+        await breaker.recordFailure()
+        vi.advanceTimersByTime(30_000)
+        expect(await breaker.getOpenUntil()).toBeUndefined()
+
+        await breaker.recordFailure()
+        expect(await breaker.getOpenUntil()).toEqual(new Date('2024-01-01T00:01:00Z'))
+    })
+
+    it('should close on the first success while half-open', async () => {
+        const breaker = createCircuitBreaker('test-function', { ...configuration, failureThreshold: 2 })
+        await breaker.recordFailure()
+        await breaker.recordFailure()
+        vi.advanceTimersByTime(30_000)
+        await breaker.recordSuccess()
+
+        await breaker.recordFailure()
+        expect(await breaker.getOpenUntil()).toBeUndefined()
+    })
+
+    it('should spread the time until which messages are paused over openSeconds after the half-open time', async () => {
+        const breaker = createCircuitBreaker('function-a', configuration)
+        expect(await breaker.getPausedUntil()).toBeUndefined()
+
+        await breaker.recordFailure()
+        await breaker.recordFailure()
+        await breaker.recordFailure()
+        vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.5)
+
+        expect(await breaker.getPausedUntil()).toEqual(new Date('2024-01-01T00:00:30Z'))
+        expect(await breaker.getPausedUntil()).toEqual(new Date('2024-01-01T00:00:45Z'))
+        vi.mocked(Math.random).mockRestore()
+    })
+
+    it('should share state between breakers with the same key and store', async () => {
+        const stateStore = new InMemoryCircuitBreakerStateStore()
+        const breaker = createCircuitBreaker('test-function', { ...configuration, failureThreshold: 1, stateStore })
+        const otherInstance = createCircuitBreaker('test-function', { ...configuration, failureThreshold: 1, stateStore })
+        const otherFunction = createCircuitBreaker('other-function', { ...configuration, failureThreshold: 1, stateStore })
+
+        await breaker.recordFailure()
+        expect(await otherInstance.getOpenUntil()).toEqual(new Date('2024-01-01T00:00:30Z'))
+        expect(await otherFunction.getOpenUntil()).toBeUndefined()
+    })
+})
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createDedupeCache } from '../src/implementation/dedupeCache'
+
+describe('createDedupeCache', () => {
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should remember added messageIds', () => {
+        const cache = createDedupeCache(60)
+        cache.add('id-1')
+
+        expect(cache.has('id-1')).toBe(true)
+        expect(cache.has('id-2')).toBe(false)
+    })
+
+    it('should forget messageIds after the window', () => {
+        const cache = createDedupeCache(60)
+        cache.add('id-1')
+        vi.advanceTimersByTime(59_000)
+        expect(cache.has('id-1')).toBe(true)
+
+        vi.advanceTimersByTime(1_000)
+        expect(cache.has('id-1')).toBe(false)
+    })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { decodeRetryEnvelope, decodeRetryProperties, encodeRetryMessageWrapper, encodeRetryProperties, isRetryMessageWrapper } from '../src/implementation/envelope'
+import { NonRetryableError, UnsupportedRetrySchemaVersionError } from '../src/util/error'
+
+describe('isRetryMessageWrapper', () => {
+    it('should detect a body wrapper', () => {
+        expect(isRetryMessageWrapper({ message: 'data', publishCount: 2, originalBindingData: {} })).toBe(true)
+    })
+
+    it('should not detect plain messages as wrapper', () => {
+        expect(isRetryMessageWrapper({ test: 'data' })).toBe(false)
+        expect(isRetryMessageWrapper('data')).toBe(false)
+        expect(isRetryMessageWrapper(null)).toBe(false)
+    })
+
+    it('should detect a body wrapper by its type marker', () => {
+        expect(isRetryMessageWrapper({ $type: 'servicebus-retry-wrapper', message: 'data', publishCount: 2, originalBindingData: {}, extra: true })).toBe(true)
+        expect(isRetryMessageWrapper({ $type: 'other', message: 'data', publishCount: 2, originalBindingData: {} })).toBe(false)
+    })
+
+    it('should not detect messages with a publishCount field of their own as wrapper', () => {
+        expect(isRetryMessageWrapper({ orderId: 'order-1', publishCount: 2 })).toBe(false)
+        expect(isRetryMessageWrapper({ message: 'data', publishCount: 2, originalBindingData: {}, orderId: 'order-1' })).toBe(false)
+        expect(isRetryMessageWrapper({ message: 'data', publishCount: '2', originalBindingData: {} })).toBe(false)
+    })
+})
+
+describe('encodeRetryProperties / decodeRetryProperties', () => {
+    it('should round trip retry metadata through application properties', () => {
+        const metadata = {
+            publishCount: 3,
+            originalBindingData: { messageId: 'id-1', enqueuedTimeUtc: '2024-01-01T00:00:00.000', expiresAtUtc: '2024-01-02T00:00:00.000' },
+            failureHistory: [{ name: 'Error', message: 'Failed', timestamp: '2024-01-01T00:00:01.000Z' }],
+            previousDelaySeconds: 12,
+        }
+        const properties = encodeRetryProperties(metadata)
+        expect(properties).toEqual({
+            'x-retry-schema-version': 1,
+            'x-retry-publish-count': 3,
+            'x-retry-original-message-id': 'id-1',
+            'x-retry-original-enqueued-time-utc': '2024-01-01T00:00:00.000',
+            'x-retry-original-expires-at-utc': '2024-01-02T00:00:00.000',
+            'x-retry-original-binding-data': JSON.stringify(metadata.originalBindingData),
+            'x-retry-failure-history': JSON.stringify(metadata.failureHistory),
+            'x-retry-previous-delay-seconds': 12,
+        })
+        expect(decodeRetryProperties(properties)).toEqual(metadata)
+    })
+
+    it('should round trip all original binding data', () => {
+        const originalBindingData = {
+            messageId: 'id-1',
+            enqueuedTimeUtc: '2024-01-01T00:00:00.000',
+            expiresAtUtc: '2024-01-02T00:00:00.000',
+            correlationId: 'correlation-1',
+            subject: 'order-created',
+            replyTo: 'reply-queue',
+            partitionKey: 'partition-1',
+            sessionId: 'session-1',
+            applicationProperties: { tenant: 'contoso', traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01' },
+        }
+        const properties = encodeRetryProperties({ publishCount: 2, originalBindingData, failureHistory: [] })
+        expect(decodeRetryProperties(properties)?.originalBindingData).toEqual(originalBindingData)
+    })
+
+    it('should read the separate binding data properties of envelopes without the full binding data', () => {
+        expect(decodeRetryProperties({ 'x-retry-publish-count': 2, 'x-retry-original-message-id': 'id-1' })?.originalBindingData).toEqual({ messageId: 'id-1', enqueuedTimeUtc: undefined, expiresAtUtc: undefined })
+    })
+
+    it('should leave out unknown binding data', () => {
+        const properties = encodeRetryProperties({ publishCount: 2, originalBindingData: {}, failureHistory: [] })
+        expect(Object.keys(properties)).toEqual(['x-retry-schema-version', 'x-retry-publish-count', 'x-retry-failure-history'])
+    })
+
+    it('should accept a publish count as string and a missing failure history', () => {
+        expect(decodeRetryProperties({ 'x-retry-publish-count': '2' })).toEqual({
+            publishCount: 2,
+            originalBindingData: { messageId: undefined, enqueuedTimeUtc: undefined, expiresAtUtc: undefined },
+            failureHistory: [],
+        })
+    })
+
+    it('should return undefined when the message has no retry properties', () => {
+        expect(decodeRetryProperties(undefined)).toBeUndefined()
+        expect(decodeRetryProperties({ tenant: 'contoso' })).toBeUndefined()
+    })
+})
+
+describe('encodeRetryMessageWrapper / decodeRetryEnvelope', () => {
+    const retryMetadata = {
+        publishCount: 2,
+        originalBindingData: { messageId: 'id-1' },
+        failureHistory: [{ name: 'Error', message: 'Failed', timestamp: '2024-01-01T00:00:01.000Z' }],
+    }
+
+    it('should round trip a message through a body wrapper with type marker and schema version', () => {
+        const wrapper = encodeRetryMessageWrapper({ orderId: 'order-1' }, retryMetadata)
+        expect(wrapper).toEqual({ $type: 'servicebus-retry-wrapper', schemaVersion: 1, message: { orderId: 'order-1' }, ...retryMetadata })
+        expect(decodeRetryEnvelope(JSON.parse(JSON.stringify(wrapper)))).toEqual({ message: { orderId: 'order-1' }, retryMetadata })
+    })
+
+    it('should read wrappers without schema version as version 1', () => {
+        expect(decodeRetryEnvelope({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'id-1' } })).toEqual({
+            message: 'data',
+            retryMetadata: { publishCount: 2, originalBindingData: { messageId: 'id-1' }, failureHistory: [] },
+        })
+    })
+
+    it('should ignore fields it does not know', () => {
+        const decoded = decodeRetryEnvelope({ ...encodeRetryMessageWrapper('data', retryMetadata), addedInLaterVersion: true })
+        expect(decoded).toEqual({ message: 'data', retryMetadata })
+    })
+
+    it('should read application properties before the body', () => {
+        const decoded = decodeRetryEnvelope({ orderId: 'order-1' }, encodeRetryProperties(retryMetadata))
+        expect(decoded?.message).toEqual({ orderId: 'order-1' })
+        expect(decoded?.retryMetadata.publishCount).toBe(2)
+    })
+
+    it('should return undefined for messages that are not a retry', () => {
+        expect(decodeRetryEnvelope({ orderId: 'order-1' }, { tenant: 'contoso' })).toBeUndefined()
+    })
+
+    it('should throw for envelopes with an unsupported schema version', () => {
+        expect(() => decodeRetryEnvelope({ ...encodeRetryMessageWrapper('data', retryMetadata), schemaVersion: 2 })).toThrow(UnsupportedRetrySchemaVersionError)
+        expect(() => decodeRetryEnvelope('data', { ...encodeRetryProperties(retryMetadata), 'x-retry-schema-version': 2 })).toThrow('Retry envelope schema version 2 is not supported, supported versions: 1')
+        expect(() => decodeRetryEnvelope('data', { ...encodeRetryProperties(retryMetadata), 'x-retry-schema-version': 2 })).toThrow(NonRetryableError)
+    })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mock } from 'vitest-mock-extended'
+import type { InvocationContext } from '@azure/functions'
+import { logEvent, type RetryLogEvent } from '../src/implementation/logger'
+
+describe('logEvent', () => {
+    const event: RetryLogEvent = { event: 'retryScheduled', message: 'Rescheduling message', originalMessageId: 'message-1', publishCount: 2 }
+
+    beforeEach(() => {
+        vi.spyOn(console, 'info').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('should log the event as JSON through the invocation context', () => {
+        const context = mock<InvocationContext>()
+        context.functionName = 'test-function'
+
+        logEvent({}, 'info', event, context)
+
+        expect(context.info).toHaveBeenCalledWith('SRBLIB: {"event":"retryScheduled","message":"Rescheduling message","originalMessageId":"message-1","publishCount":2,"functionName":"test-function"}')
+    })
+
+    it('should log to the console outside of invocations', () => {
+        logEvent({}, 'info', event)
+
+        expect(console.info).toHaveBeenCalledWith('SRBLIB: {"event":"retryScheduled","message":"Rescheduling message","originalMessageId":"message-1","publishCount":2}')
+    })
+
+    it('should pass events to a custom logger', () => {
+        const logger = { log: vi.fn() }
+
+        logEvent({ logger }, 'warn', event)
+
+        expect(logger.log).toHaveBeenCalledWith('warn', event, undefined)
+        expect(console.info).not.toHaveBeenCalled()
+    })
+
+    it('should skip events below the log level', () => {
+        const logger = { log: vi.fn() }
+
+        logEvent({ logger, logLevel: 'warn' }, 'info', event)
+        logEvent({ logger, logLevel: 'warn' }, 'error', event)
+        logEvent({ logger, logLevel: 'none' }, 'error', event)
+
+        expect(logger.log).toHaveBeenCalledOnce()
+        expect(logger.log).toHaveBeenCalledWith('error', event, undefined)
+    })
+})
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { estimateMessageSize, getMessageProperties, getTriggerMetadataValue, selectPreservedProperties } from '../src/implementation/messageProperties'
+
+describe('getTriggerMetadataValue', () => {
+    it('should read a value for a single message', () => {
+        expect(getTriggerMetadataValue({ messageId: 'id-1' }, 'messageId')).toBe('id-1')
+    })
+
+    it('should read a value for a message in a batch from the array', () => {
+        expect(getTriggerMetadataValue({ messageIdArray: ['id-1', 'id-2'] }, 'messageId', 1)).toBe('id-2')
+    })
+
+    it('should return undefined when the metadata is missing', () => {
+        expect(getTriggerMetadataValue(undefined, 'messageId')).toBeUndefined()
+        expect(getTriggerMetadataValue({}, 'messageId', 0)).toBeUndefined()
+    })
+})
+
+describe('getMessageProperties', () => {
+    it('should read the message properties and strip retry application properties', () => {
+        const result = getMessageProperties({
+            messageId: 'id-1',
+            correlationId: 'correlation-1',
+            label: 'subject-1',
+            contentType: 'application/json',
+            applicationProperties: { tenant: 'contoso', 'x-retry-target-subscription': 'sub' },
+        })
+        expect(result).toEqual({
+            messageId: 'id-1',
+            correlationId: 'correlation-1',
+            subject: 'subject-1',
+            contentType: 'application/json',
+            applicationProperties: { tenant: 'contoso' },
+        })
+    })
+
+    it('should prefer subject over label', () => {
+        const result = getMessageProperties({ subjectArray: ['subject-1'], labelArray: ['label-1'] }, 0)
+        expect(result.subject).toBe('subject-1')
+        expect(result.applicationProperties).toBeUndefined()
+    })
+})
+
+describe('selectPreservedProperties', () => {
+    const properties = {
+        messageId: 'id-1',
+        correlationId: 'correlation-1',
+        subject: 'subject-1',
+        replyTo: 'reply-queue',
+        contentType: 'application/json',
+        applicationProperties: { tenant: 'contoso' },
+    }
+
+    it('should select all properties with a value by default', () => {
+        expect(selectPreservedProperties(properties)).toEqual({
+            correlationId: 'correlation-1',
+            subject: 'subject-1',
+            replyTo: 'reply-queue',
+            applicationProperties: { tenant: 'contoso' },
+        })
+    })
+
+    it('should only select included properties', () => {
+        expect(selectPreservedProperties(properties, { include: ['correlationId', 'sessionId'] })).toEqual({ correlationId: 'correlation-1' })
+    })
+
+    it('should not select excluded properties', () => {
+        expect(selectPreservedProperties(properties, { exclude: ['subject', 'applicationProperties'] })).toEqual({
+            correlationId: 'correlation-1',
+            replyTo: 'reply-queue',
+        })
+    })
+})
+
+describe('estimateMessageSize', () => {
+    it('should count the serialized body', () => {
+        expect(estimateMessageSize({ body: { test: 'data' } })).toBe(JSON.stringify({ test: 'data' }).length)
+        expect(estimateMessageSize({ body: Buffer.alloc(10) })).toBe(10)
+    })
+
+    it('should count string properties and application properties', () => {
+        expect(estimateMessageSize({ body: 'a', messageId: 'id-1', applicationProperties: { tenant: 'contoso', count: 12 } }))
+            .toBe(3 + 4 + 'tenant'.length + 'contoso'.length + 'count'.length + 2)
+    })
+
+    it('should count multi-byte characters by their encoded length', () => {
+        expect(estimateMessageSize({ body: 'é' })).toBe(4)
+    })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FileSystemRetryStateStore, InMemoryRetryStateStore } from '../src/implementation/retryStateStore'
+
+const claimCheck = '2f1c6a52-8d4e-4b7a-9c1e-3f5d2a6b7c8d'
+
+describe('InMemoryRetryStateStore', () => {
+    it('should save, load and delete a body', async () => {
+        const store = new InMemoryRetryStateStore()
+        await store.save(claimCheck, { test: 'data' })
+        expect(await store.load(claimCheck)).toEqual({ test: 'data' })
+
+        await store.delete(claimCheck)
+        expect(await store.load(claimCheck)).toBeUndefined()
+    })
+})
+
+describe('FileSystemRetryStateStore', () => {
+    let directory: string
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'retry-state-'))
+    })
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true })
+    })
+
+    it('should save, load and delete a body as JSON file', async () => {
+        const store = new FileSystemRetryStateStore(join(directory, 'bodies'))
+        await store.save(claimCheck, { test: 'data' })
+        expect(await readdir(join(directory, 'bodies'))).toEqual([`${claimCheck}.json`])
+        expect(await store.load(claimCheck)).toEqual({ test: 'data' })
+
+        await store.delete(claimCheck)
+        expect(await store.load(claimCheck)).toBeUndefined()
+        await expect(store.delete(claimCheck)).resolves.toBeUndefined()
+    })
+
+    it('should reject keys that are not claim-check references', async () => {
+        const store = new FileSystemRetryStateStore(directory)
+        await expect(store.load('../secrets')).rejects.toThrow('Invalid claim-check reference: ../secrets')
+        await expect(store.delete('../secrets')).rejects.toThrow('Invalid claim-check reference: ../secrets')
+    })
+})
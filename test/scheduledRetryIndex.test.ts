@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { addScheduledRetry, InMemoryScheduledRetryIndex, removeScheduledRetries, type SequenceNumber } from '../src/implementation/scheduledRetryIndex'
+
+describe('scheduled retry index', () => {
+    const sequenceNumber = (value: number) => ({ value }) as unknown as SequenceNumber
+    const scheduledTime = new Date('2024-01-01T00:01:00Z')
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should add retries to the retries of the original message', async () => {
+        const index = new InMemoryScheduledRetryIndex()
+        await addScheduledRetry(index, 'id-1', { functionName: 'function-a', sequenceNumber: sequenceNumber(1), scheduledTime })
+        await addScheduledRetry(index, 'id-1', { functionName: 'function-b', sequenceNumber: sequenceNumber(2), scheduledTime })
+
+        expect(await index.get('id-1')).toEqual([
+            { functionName: 'function-a', sequenceNumber: sequenceNumber(1), scheduledTime },
+            { functionName: 'function-b', sequenceNumber: sequenceNumber(2), scheduledTime },
+        ])
+    })
+
+    it('should only remove and return the retries of the given function', async () => {
+        const index = new InMemoryScheduledRetryIndex()
+        await addScheduledRetry(index, 'id-1', { functionName: 'function-a', sequenceNumber: sequenceNumber(1), scheduledTime })
+        await addScheduledRetry(index, 'id-1', { functionName: 'function-b', sequenceNumber: sequenceNumber(2), scheduledTime })
+
+        expect(await removeScheduledRetries(index, 'id-1', 'function-a')).toEqual([{ functionName: 'function-a', sequenceNumber: sequenceNumber(1), scheduledTime }])
+        expect(await index.get('id-1')).toEqual([{ functionName: 'function-b', sequenceNumber: sequenceNumber(2), scheduledTime }])
+    })
+
+    it('should delete the original message once no retries remain', async () => {
+        const index = new InMemoryScheduledRetryIndex()
+        await addScheduledRetry(index, 'id-1', { functionName: 'function-a', sequenceNumber: sequenceNumber(1), scheduledTime })
+
+        await removeScheduledRetries(index, 'id-1', 'function-a')
+        expect(await index.get('id-1')).toBeUndefined()
+        expect(await removeScheduledRetries(index, 'id-1', 'function-a')).toEqual([])
+    })
+
+    it('should evict retries once the grace period after their scheduled time has passed', async () => {
+        const index = new InMemoryScheduledRetryIndex(60)
+        await addScheduledRetry(index, 'id-1', { functionName: 'function-a', sequenceNumber: sequenceNumber(1), scheduledTime })
+        await addScheduledRetry(index, 'id-1', { functionName: 'function-b', sequenceNumber: sequenceNumber(2), scheduledTime: new Date('2024-01-01T00:05:00Z') })
+        await addScheduledRetry(index, 'id-2', { functionName: 'function-a', sequenceNumber: sequenceNumber(3), scheduledTime })
+
+        vi.advanceTimersByTime(119_000)
+        expect(await index.get('id-1')).toHaveLength(2)
+
+        vi.advanceTimersByTime(1_000)
+        expect(await index.get('id-1')).toEqual([{ functionName: 'function-b', sequenceNumber: sequenceNumber(2), scheduledTime: new Date('2024-01-01T00:05:00Z') }])
+        expect(await index.get('id-2')).toBeUndefined()
+    })
+})
@@ -1,15 +1,17 @@
-import { describe, test, expect, vi, beforeEach } from 'vitest'
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
 import { mock } from 'vitest-mock-extended'
 import { app, ServiceBusQueueFunctionOptions } from '@azure/functions'
-import { ServiceBusSender, ServiceBusClient, ServiceBusMessage } from '@azure/service-bus'
-import { serviceBusQueueWithRetries, ServiceBusRetryConfiguration, ServiceBusRetryInvocationContext } from '../src/implementation/serviceBusRetryTrigger.js'
-import { MessageExpiredError } from '../src/util/error.js'
+import { ServiceBusSender, ServiceBusReceiver, ServiceBusClient, ServiceBusMessage } from '@azure/service-bus'
+import { cancelScheduledRetries, serviceBusQueueWithRetries, serviceBusTopicWithRetries, ServiceBusRetryBatchInvocationContext, ServiceBusRetryConfiguration, ServiceBusRetryInvocationContext } from '../src/implementation/serviceBusRetryTrigger.js'
+import { InMemoryRetryStateStore } from '../src/implementation/retryStateStore.js'
+import type { SequenceNumber } from '../src/implementation/scheduledRetryIndex.js'
+import { BatchProcessingError, MaxRetriesReachedError, MessageExpiredError, MessageLockLostError, MessageValidationError, NonRetryableError, RetryAfterError, RetryBudgetExceededError, RetryMessageTooLargeError, UnsupportedRetrySchemaVersionError } from '../src/util/error.js'
 
 vi.useFakeTimers()
 vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
 
 vi.mock('@azure/functions', () => ({
-  app: { serviceBusQueue: vi.fn() }
+  app: { serviceBusQueue: vi.fn(), serviceBusTopic: vi.fn() }
 }))
 
 vi.mock('@azure/service-bus', () => ({
@@ -19,12 +21,18 @@ vi.mock('@azure/service-bus', () => ({
 
 const serviceBusClientMock = mock<ServiceBusClient>()
 const mockSender = mock<ServiceBusSender>()
+const mockReceiver = mock<ServiceBusReceiver>()
 vi.mocked(ServiceBusClient).mockImplementation(function() {
   return serviceBusClientMock
 })
 serviceBusClientMock.createSender.mockImplementation(function() {
   return mockSender
 })
+serviceBusClientMock.createReceiver.mockImplementation(function() {
+  return mockReceiver
+})
+let lastSequenceNumber = 0
+mockSender.scheduleMessages.mockImplementation(async () => [++lastSequenceNumber as unknown as SequenceNumber])
 
 describe('serviceBusQueueWithRetries - no retry configuration', () => {
 
@@ -93,9 +101,13 @@ describe('executeWithRetries', async () => {
     expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
       expect.objectContaining({
         body: {
+          $type: 'servicebus-retry-wrapper',
+          schemaVersion: 1,
           message: {test: 'data'},
           publishCount: 2,
-          originalBindingData: {messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-01T00:00:00.000'}
+          originalBindingData: {messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-01T00:00:00.000'},
+          failureHistory: [{ name: 'Error', message: 'Function execution failed', timestamp: '2024-01-01T00:00:00.000Z' }],
+          previousDelaySeconds: 5
         },
         scheduledEnqueueTimeUtc: new Date('2024-01-01T00:00:05Z')
       }), new Date('2024-01-01T00:00:05Z'))
@@ -115,18 +127,62 @@ describe('executeWithRetries', async () => {
     expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
       expect.objectContaining({
         body: {
+          $type: 'servicebus-retry-wrapper',
+          schemaVersion: 1,
           message: 'data',
           publishCount: 4,
           originalBindingData: {
             messageId: 'test-message-id-original',
             enqueuedTimeUtc: new Date().toISOString()
-          }
+          },
+          failureHistory: [{ name: 'Error', message: 'Function execution failed', timestamp: '2024-01-01T00:00:00.000Z' }],
+          previousDelaySeconds: 20
         },
         // three retries with exponential backoff = 5 * 2^(3 - 1) = 20 seconds
         scheduledEnqueueTimeUtc: new Date('2024-01-01T00:00:20Z')
       }), new Date('2024-01-01T00:00:20Z'))
   })
 
+  test('Should base a decorrelated-jitter delay on the previous delay carried in the wrapper', async () => {
+    await serviceBusQueueWithRetries('test-decorrelated-jitter-function', {
+      queueName: 'test-queue',
+      connection: 'test-connection',
+      handler,
+      retryConfiguration: { ...retryConfig, retryStrategy: 'decorrelated-jitter', preserveExpiresAt: false }
+    })
+    const calls = vi.mocked(app.serviceBusQueue).mock.calls
+    const decorrelatedRetryHandler = calls[calls.length - 1][1].handler
+    vi.spyOn(Math, 'random').mockReturnValue(0.5)
+    handler.mockRejectedValue(new Error('Function execution failed'))
+
+    await decorrelatedRetryHandler({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' }, previousDelaySeconds: 20 }, mockContext)
+    vi.mocked(Math.random).mockRestore()
+
+    // 5 + 0.5 * (3 * 20 - 5) = 32.5, rounded to 33 seconds
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ publishCount: 3, previousDelaySeconds: 33 }) }),
+      new Date('2024-01-01T00:00:33Z'))
+  })
+
+  test('Should call a retry strategy function with the context and the handler error', async () => {
+    const retryStrategy = vi.fn().mockReturnValue(30)
+    await serviceBusQueueWithRetries('test-strategy-function', {
+      queueName: 'test-queue',
+      connection: 'test-connection',
+      handler,
+      retryConfiguration: { ...retryConfig, retryStrategy, preserveExpiresAt: false }
+    })
+    const calls = vi.mocked(app.serviceBusQueue).mock.calls
+    const strategyRetryHandler = calls[calls.length - 1][1].handler
+    const error = new Error('Function execution failed')
+    handler.mockRejectedValue(error)
+
+    await strategyRetryHandler({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)
+
+    expect(retryStrategy).toHaveBeenCalledWith(1, mockContext, error)
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.anything(), new Date('2024-01-01T00:00:30Z'))
+  })
+
   test('Should not republish when max retries reached, and throw an error', async () => {
     const message = { message: 'data', 
       publishCount: 4,
@@ -188,6 +244,63 @@ describe('executeWithRetries', async () => {
     expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
   })
 
+  test('Should chain the last handler error as cause when max retries reached', async () => {
+    const message = { message: 'data',
+      publishCount: 4,
+      originalBindingData: { messageId: 'test-message-id-original' }
+    }
+    const error = new Error('Function execution failed')
+    handler.mockRejectedValue(error)
+    const thrown = await retryHandler(message, mockContext).catch((e: unknown) => e)
+    expect((thrown as Error).cause).toBe(error)
+  })
+
+  test('Should chain the last handler error as cause when the message has expired', async () => {
+    const message = { message: 'data',
+      publishCount: 1,
+      originalBindingData: { messageId: 'test-message-id-original', expiresAtUtc: '2023-12-31T23:59:59' }
+    }
+    const error = new Error('Function execution failed')
+    handler.mockRejectedValue(error)
+    const thrown = await retryHandler(message, mockContext).catch((e: unknown) => e)
+    expect(thrown).toBeInstanceOf(MessageExpiredError)
+    expect((thrown as Error).cause).toBe(error)
+  })
+
+  test('Should expose the failure history on the context and append the new failure', async () => {
+    const previousFailure = { name: 'TypeError', message: 'First failure', timestamp: '2023-12-31T23:59:00.000Z' }
+    const message = { message: 'data',
+      publishCount: 2,
+      originalBindingData: { messageId: 'test-message-id-original' },
+      failureHistory: [previousFailure]
+    }
+    handler.mockRejectedValue('Second failure')
+    await retryHandler(message, mockContext)
+
+    expect(mockContext.failureHistory).toEqual([previousFailure])
+    const scheduledMessage = mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage
+    expect(scheduledMessage.body.failureHistory).toEqual([
+      previousFailure,
+      { name: 'string', message: 'Second failure', timestamp: '2024-01-01T00:00:00.000Z' }
+    ])
+  })
+
+  test('Should limit the failure history to the last 20 attempts', async () => {
+    const failureHistory = Array.from({ length: 20 }, (_, index) => ({ name: 'Error', message: `Failure ${index}`, timestamp: '2023-12-31T23:59:00.000Z' }))
+    const message = { message: 'data',
+      publishCount: 2,
+      originalBindingData: { messageId: 'test-message-id-original' },
+      failureHistory
+    }
+    handler.mockRejectedValue(new Error('x'.repeat(1000)))
+    await retryHandler(message, mockContext)
+
+    const scheduledMessage = mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage
+    expect(scheduledMessage.body.failureHistory).toHaveLength(20)
+    expect(scheduledMessage.body.failureHistory[0].message).toBe('Failure 1')
+    expect(scheduledMessage.body.failureHistory[19].message).toHaveLength(500)
+  })
+
   test('Should not set timeToLive on rescheduled message when preserveExpiresAt is false', async () => {
     const noExpiryConfig: ServiceBusRetryConfiguration = {
       ...retryConfig,
@@ -217,3 +330,1775 @@ describe('executeWithRetries', async () => {
     expect(scheduledMessage.timeToLive).toBeUndefined()
   })
 })
+
+describe('executeWithRetries - error classification', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const shouldRetry = vi.fn()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-classification-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, shouldRetry }
+  })
+
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  test('should rethrow NonRetryableError without rescheduling or consulting shouldRetry', async () => {
+    const error = new NonRetryableError('Invalid payload')
+    handler.mockRejectedValue(error)
+    await expect(retryHandler({ test: 'data' }, mockContext)).rejects.toBe(error)
+    expect(shouldRetry).not.toHaveBeenCalled()
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should fail without rescheduling when shouldRetry returns false, keeping the original error as cause', async () => {
+    const error = new TypeError('Cannot read properties of undefined')
+    handler.mockRejectedValue(error)
+    shouldRetry.mockReturnValue(false)
+
+    const thrown = await retryHandler({ test: 'data' }, mockContext).catch((e: unknown) => e)
+    expect(thrown).toBeInstanceOf(NonRetryableError)
+    expect((thrown as Error).cause).toBe(error)
+    expect(shouldRetry).toHaveBeenCalledWith(error, mockContext)
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should reschedule when shouldRetry returns true', async () => {
+    handler.mockRejectedValue(new Error('Timeout'))
+    shouldRetry.mockReturnValue(true)
+    await retryHandler({ test: 'data' }, mockContext)
+    expect(mockSender.scheduleMessages).toHaveBeenCalled()
+  })
+})
+
+describe('executeWithRetries - dead-letter on exhausted', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-dead-letter-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, onExhausted: 'deadLetter' }
+  })
+
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id', lockToken: 'test-lock-token' }
+  })
+
+  test('should dead-letter with reason, description and retry history when max retries reached', async () => {
+    const message = { message: 'data', publishCount: 4, originalBindingData: { messageId: 'test-message-id-original' } }
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await retryHandler(message, mockContext)
+
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'test-lock-token' }),
+      {
+        deadLetterReason: 'MaxRetriesReached',
+        deadLetterErrorDescription: 'Max retries reached for original messageId / current messageId: test-message-id-original / test-message-id. Last error: Error: Downstream unavailable',
+        'x-retry-summary-original-message-id': 'test-message-id-original',
+        'x-retry-summary-publish-count': 4,
+        'x-retry-summary-last-error': 'Error: Downstream unavailable',
+        'x-retry-summary-failure-history': JSON.stringify([{ name: 'Error', message: 'Downstream unavailable', timestamp: '2024-01-01T00:00:00.000Z' }]),
+      })
+  })
+
+  test('should dead-letter expired messages with reason MessageExpired', async () => {
+    const message = { message: 'data', publishCount: 1, originalBindingData: { messageId: 'test-message-id-original', expiresAtUtc: '2023-12-31T23:59:59' } }
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await retryHandler(message, mockContext)
+
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ deadLetterReason: 'MessageExpired' }))
+  })
+
+  test('should still reschedule messages that have retries left', async () => {
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalled()
+    expect(mockReceiver.deadLetterMessage).not.toHaveBeenCalled()
+  })
+
+  test('should throw the error when no lock token is available', async () => {
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+    const message = { message: 'data', publishCount: 4, originalBindingData: { messageId: 'test-message-id-original' } }
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await expect(retryHandler(message, mockContext)).rejects.toThrow('Max retries reached')
+    expect(mockReceiver.deadLetterMessage).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeWithRetries - parking lot', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-parking-lot-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, onExhausted: { forwardTo: 'parking-lot' } }
+  })
+
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageId: 'test-message-id',
+      correlationId: 'test-correlation-id',
+      applicationProperties: { tenant: 'contoso', 'x-retry-target-subscription': 'sub' },
+    }
+  })
+
+  test('should forward the unwrapped message with its headers and a retry summary, and complete it', async () => {
+    const message = { message: { test: 'data' }, publishCount: 4, originalBindingData: { messageId: 'test-message-id-original' } }
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await retryHandler(message, mockContext)
+
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+    expect(mockSender.sendMessages).toHaveBeenCalledWith(expect.objectContaining({
+      messageId: 'test-message-id-original',
+      correlationId: 'test-correlation-id',
+      body: { test: 'data' },
+      applicationProperties: {
+        tenant: 'contoso',
+        'x-retry-summary-original-message-id': 'test-message-id-original',
+        'x-retry-summary-publish-count': 4,
+        'x-retry-summary-last-error': 'Error: Downstream unavailable',
+        'x-retry-summary-failure-history': JSON.stringify([{ name: 'Error', message: 'Downstream unavailable', timestamp: '2024-01-01T00:00:00.000Z' }]),
+        'x-retry-summary-exhausted-reason': 'MaxRetriesReached',
+      }
+    }))
+  })
+
+  test('should process a message replayed from the parking lot as a first attempt', async () => {
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await retryHandler({ message: { test: 'data' }, publishCount: 4, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)
+    const parkedMessage = mockSender.sendMessages.mock.calls[0][0] as ServiceBusMessage
+
+    vi.clearAllMocks()
+    handler.mockResolvedValue(undefined)
+    mockContext.triggerMetadata = { messageId: parkedMessage.messageId, applicationProperties: parkedMessage.applicationProperties }
+    await retryHandler(parkedMessage.body, mockContext)
+
+    expect(handler).toHaveBeenCalledWith({ test: 'data' }, mockContext)
+    expect(mockContext.publishCount).toBe(1)
+  })
+
+  test('should forward non-retryable messages immediately', async () => {
+    handler.mockRejectedValue(new NonRetryableError('Invalid payload'))
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(mockSender.sendMessages).toHaveBeenCalledWith(expect.objectContaining({
+      messageId: 'test-message-id',
+      applicationProperties: expect.objectContaining({ 'x-retry-summary-exhausted-reason': 'NonRetryable' }),
+    }))
+  })
+
+  test('should forward string bodies as they were received', async () => {
+    handler.mockRejectedValue(new NonRetryableError('Invalid payload'))
+    await retryHandler('<order id="1"/>', mockContext)
+
+    expect(mockSender.sendMessages).toHaveBeenCalledWith(expect.objectContaining({ body: Buffer.from('<order id="1"/>') }))
+  })
+
+  test('should rethrow errors that are not caused by exhaustion', async () => {
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    mockSender.scheduleMessages.mockRejectedValueOnce(new Error('Send failed'))
+    await expect(retryHandler({ test: 'data' }, mockContext)).rejects.toThrow('Send failed')
+    expect(mockSender.sendMessages).not.toHaveBeenCalled()
+  })
+})
+
+describe('serviceBusQueueWithRetries - retry queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('should send retries to the retry queue and register a trigger on it that runs the same handler', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('Function execution failed'))
+    serviceBusQueueWithRetries('test-retry-queue-function', {
+      queueName: 'test-queue',
+      connection: 'test-connection',
+      handler,
+      retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, retryQueueName: 'test-queue-retries' }
+    })
+
+    expect(serviceBusClientMock.createSender).toHaveBeenCalledWith('test-queue-retries')
+    expect(app.serviceBusQueue).toHaveBeenCalledTimes(2)
+    expect(app.serviceBusQueue).toHaveBeenCalledWith('test-retry-queue-function', expect.objectContaining({ queueName: 'test-queue' }))
+    expect(app.serviceBusQueue).toHaveBeenCalledWith('test-retry-queue-function-retry', expect.objectContaining({ queueName: 'test-queue-retries', connection: 'test-connection' }))
+
+    const retryQueueHandler = vi.mocked(app.serviceBusQueue).mock.calls[1][1].handler
+    const mockContext = mock<ServiceBusRetryInvocationContext>()
+    mockContext.triggerMetadata = { messageId: 'test-retry-message-id' }
+    await retryQueueHandler({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id' } }, mockContext)
+
+    expect(handler).toHaveBeenCalledWith('data', mockContext)
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.objectContaining({ body: expect.objectContaining({ publishCount: 3 }) }), expect.any(Date))
+  })
+
+  test('should register a retry queue trigger for topic triggers', () => {
+    serviceBusTopicWithRetries('test-topic-retry-queue-function', {
+      topicName: 'test-topic',
+      subscriptionName: 'test-subscription',
+      connection: 'test-connection',
+      cardinality: 'many',
+      handler: vi.fn(),
+      retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', retryQueueName: 'test-subscription-retries' }
+    })
+
+    expect(serviceBusClientMock.createSender).toHaveBeenCalledWith('test-subscription-retries')
+    expect(serviceBusClientMock.createReceiver).toHaveBeenCalledWith('test-topic', 'test-subscription')
+    expect(serviceBusClientMock.createReceiver).toHaveBeenCalledWith('test-subscription-retries')
+    expect(app.serviceBusQueue).toHaveBeenCalledWith('test-topic-retry-queue-function-retry', expect.objectContaining({ queueName: 'test-subscription-retries', cardinality: 'many' }))
+  })
+
+  test('should pass the trigger options to the retry queue trigger', () => {
+    serviceBusTopicWithRetries('test-retry-queue-options-function', {
+      topicName: 'test-topic',
+      subscriptionName: 'test-subscription',
+      connection: 'test-connection',
+      autoCompleteMessages: false,
+      sdkBinding: true,
+      handler: vi.fn(),
+      retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', retryQueueName: 'test-subscription-retries' }
+    })
+
+    const retryQueueOptions = vi.mocked(app.serviceBusQueue).mock.calls.find(([name]) => name === 'test-retry-queue-options-function-retry')?.[1]
+    expect(retryQueueOptions).toEqual({
+      queueName: 'test-subscription-retries',
+      connection: 'test-connection',
+      autoCompleteMessages: false,
+      sdkBinding: true,
+      handler: expect.any(Function),
+    })
+  })
+})
+
+describe('executeWithRetries - application properties envelope', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-properties-envelope-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false, envelope: 'applicationProperties' }
+  })
+
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageId: 'test-message-id',
+      enqueuedTimeUtc: '2024-01-01T00:00:00.000',
+      correlationId: 'test-correlation-id',
+      subject: 'order-created',
+      contentType: 'text/plain',
+      applicationProperties: { tenant: 'contoso' },
+    }
+  })
+
+  test('should keep the original body and properties and add retry metadata as application properties', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler('plain text', mockContext)
+
+    const scheduledMessage = mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage
+    expect(scheduledMessage).toEqual({
+      body: Buffer.from('plain text'),
+      messageId: 'test-message-id-20240101000000000-retry-2',
+      correlationId: 'test-correlation-id',
+      subject: 'order-created',
+      contentType: 'text/plain',
+      scheduledEnqueueTimeUtc: new Date('2024-01-01T00:00:05Z'),
+      applicationProperties: {
+        tenant: 'contoso',
+        'x-retry-schema-version': 1,
+        'x-retry-publish-count': 2,
+        'x-retry-original-message-id': 'test-message-id',
+        'x-retry-original-enqueued-time-utc': '2024-01-01T00:00:00.000',
+        'x-retry-original-binding-data': JSON.stringify({ messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-01T00:00:00.000', correlationId: 'test-correlation-id', subject: 'order-created', applicationProperties: { tenant: 'contoso' } }),
+        'x-retry-failure-history': JSON.stringify([{ name: 'Error', message: 'Function execution failed', timestamp: '2024-01-01T00:00:00.000Z' }]),
+        'x-retry-previous-delay-seconds': 5,
+      },
+    })
+  })
+
+  test('should keep the original binding data across retries', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler('plain text', mockContext)
+    const scheduledMessage = mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage
+
+    handler.mockResolvedValue(undefined)
+    mockContext.triggerMetadata = { messageId: scheduledMessage.messageId, correlationId: scheduledMessage.correlationId, applicationProperties: scheduledMessage.applicationProperties }
+    await retryHandler('plain text', mockContext)
+
+    expect(mockContext.originalBindingData).toEqual({
+      messageId: 'test-message-id',
+      enqueuedTimeUtc: '2024-01-01T00:00:00.000',
+      correlationId: 'test-correlation-id',
+      subject: 'order-created',
+      applicationProperties: { tenant: 'contoso' },
+    })
+  })
+
+  test('should read retry metadata from application properties', async () => {
+    handler.mockResolvedValue(undefined)
+    mockContext.triggerMetadata!.applicationProperties = {
+      tenant: 'contoso',
+      'x-retry-publish-count': 3,
+      'x-retry-original-message-id': 'test-message-id-original',
+    }
+    await retryHandler({ publishCount: 'user field' }, mockContext)
+
+    expect(handler).toHaveBeenCalledWith({ publishCount: 'user field' }, mockContext)
+    expect(mockContext.publishCount).toBe(3)
+    expect(mockContext.originalBindingData.messageId).toBe('test-message-id-original')
+  })
+
+  test('should still accept messages with a body wrapper', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ message: { test: 'data' }, publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)
+
+    expect(handler).toHaveBeenCalledWith({ test: 'data' }, mockContext)
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.objectContaining({
+      body: { test: 'data' },
+      applicationProperties: expect.objectContaining({ 'x-retry-publish-count': 3, 'x-retry-original-message-id': 'test-message-id-original' }),
+    }), expect.any(Date))
+  })
+})
+
+describe('executeWithRetries - preserve message properties', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-preserve-properties-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  await serviceBusQueueWithRetries('test-preserve-properties-exclude-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false, preserveMessageProperties: { exclude: ['replyTo', 'applicationProperties'] } }
+  })
+  const excludeRetryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageId: 'test-message-id',
+      enqueuedTimeUtc: '2024-01-01T00:00:00.000',
+      correlationId: 'test-correlation-id',
+      subject: 'order-created',
+      replyTo: 'test-reply-queue',
+      partitionKey: 'test-partition',
+      applicationProperties: { tenant: 'contoso' },
+    }
+    handler.mockRejectedValue(new Error('Function execution failed'))
+  })
+
+  test('should copy the original message properties onto the rescheduled message', async () => {
+    await retryHandler({ test: 'data' }, mockContext)
+
+    const scheduledMessage = mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage
+    expect(scheduledMessage).toMatchObject({
+      correlationId: 'test-correlation-id',
+      subject: 'order-created',
+      replyTo: 'test-reply-queue',
+      partitionKey: 'test-partition',
+      contentType: 'application/json',
+      applicationProperties: { tenant: 'contoso' },
+    })
+    expect(scheduledMessage.messageId).toBe('test-message-id-20240101000000000-retry-2')
+  })
+
+  test('should record the original message properties in the original binding data', async () => {
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(mockContext.originalBindingData).toMatchObject({
+      messageId: 'test-message-id',
+      correlationId: 'test-correlation-id',
+      subject: 'order-created',
+      replyTo: 'test-reply-queue',
+      partitionKey: 'test-partition',
+      applicationProperties: { tenant: 'contoso' },
+    })
+  })
+
+  test('should not copy excluded properties', async () => {
+    await excludeRetryHandler({ test: 'data' }, mockContext)
+
+    const scheduledMessage = mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage
+    expect(scheduledMessage.correlationId).toBe('test-correlation-id')
+    expect(scheduledMessage.replyTo).toBeUndefined()
+    expect(scheduledMessage.applicationProperties).toEqual({})
+  })
+})
+
+describe('executeWithRetries - retry-after hints', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const retryConfig: ServiceBusRetryConfiguration = { maxRetries: 2, delaySeconds: 5, maxDelaySeconds: 600, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false }
+
+  await serviceBusQueueWithRetries('test-retry-after-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { ...retryConfig, getRetryAfter: (error) => (error as { status?: number }).status === 429 ? 120 : undefined }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  await serviceBusQueueWithRetries('test-retry-after-uncounted-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { ...retryConfig, retryAfterCountsTowardMaxRetries: false }
+  })
+  const uncountedRetryHandler = calls[calls.length - 1][1].handler
+
+  const exhaustedMessage = { message: 'data', publishCount: 3, originalBindingData: { messageId: 'test-message-id-original' } }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-01T00:00:00.000' }
+  })
+
+  test('should use the delay from a RetryAfterError instead of the retry strategy', async () => {
+    handler.mockRejectedValue(new RetryAfterError(30))
+    await retryHandler('data', mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.anything(), new Date('2024-01-01T00:00:30Z'))
+  })
+
+  test('should accept a point in time and cap the hint at maxDelaySeconds', async () => {
+    handler.mockRejectedValue(new RetryAfterError(new Date('2024-01-01T00:02:00Z')))
+    await retryHandler('data', mockContext)
+    expect(mockSender.scheduleMessages).toHaveBeenLastCalledWith(expect.anything(), new Date('2024-01-01T00:02:00Z'))
+
+    handler.mockRejectedValue(new RetryAfterError(3600))
+    await retryHandler('data', mockContext)
+    expect(mockSender.scheduleMessages).toHaveBeenLastCalledWith(expect.anything(), new Date('2024-01-01T00:10:00Z'))
+  })
+
+  test('should use the hint returned by getRetryAfter', async () => {
+    handler.mockRejectedValue(Object.assign(new Error('Too many requests'), { status: 429 }))
+    await retryHandler('data', mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.anything(), new Date('2024-01-01T00:02:00Z'))
+  })
+
+  test('should count retries with a hint toward maxRetries by default', async () => {
+    handler.mockRejectedValue(new RetryAfterError(30))
+    await expect(retryHandler(exhaustedMessage, mockContext)).rejects.toThrow(MaxRetriesReachedError)
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should not count retries with a hint toward maxRetries when configured', async () => {
+    handler.mockRejectedValue(new RetryAfterError(30))
+    await uncountedRetryHandler(exhaustedMessage, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ publishCount: 4, uncountedRetryCount: 1 }) }),
+      new Date('2024-01-01T00:00:30Z'))
+  })
+
+  test('should subtract uncounted retries when checking maxRetries for other errors', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await uncountedRetryHandler({ ...exhaustedMessage, uncountedRetryCount: 1 }, mockContext)
+    expect(mockSender.scheduleMessages).toHaveBeenCalledOnce()
+
+    await expect(uncountedRetryHandler({ ...exhaustedMessage, publishCount: 4, uncountedRetryCount: 1 }, mockContext)).rejects.toThrow(MaxRetriesReachedError)
+  })
+})
+
+describe('executeWithRetries - retry budget', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const retryConfig: ServiceBusRetryConfiguration = { maxRetries: 10, delaySeconds: 60, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false, maxRetryDurationSeconds: 300 }
+
+  await serviceBusQueueWithRetries('test-retry-budget-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: retryConfig
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  await serviceBusQueueWithRetries('test-retry-budget-final-attempt-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { ...retryConfig, finalAttemptAtDeadline: true }
+  })
+  const finalAttemptRetryHandler = calls[calls.length - 1][1].handler
+
+  await serviceBusQueueWithRetries('test-retry-budget-dead-letter-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { ...retryConfig, onExhausted: 'deadLetter' }
+  })
+  const deadLetterRetryHandler = calls[calls.length - 1][1].handler
+
+  const message = (enqueuedTimeUtc: string) => ({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original', enqueuedTimeUtc } })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id', lockToken: 'test-lock-token' }
+    handler.mockRejectedValue(new Error('Function execution failed'))
+  })
+
+  test('should reschedule when the next attempt is within the budget', async () => {
+    await retryHandler(message('2023-12-31T23:56:00.000'), mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.anything(), new Date('2024-01-01T00:01:00Z'))
+  })
+
+  test('should throw RetryBudgetExceededError when the next attempt is after the budget', async () => {
+    const error = await retryHandler(message('2023-12-31T23:55:30.000'), mockContext).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(RetryBudgetExceededError)
+    expect((error as Error).cause).toBeInstanceOf(Error)
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should schedule a final attempt at the deadline when configured', async () => {
+    await finalAttemptRetryHandler(message('2023-12-31T23:55:30.000'), mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ previousDelaySeconds: 30 }) }),
+      new Date('2024-01-01T00:00:30Z'))
+  })
+
+  test('should throw after the final attempt at the deadline', async () => {
+    await expect(finalAttemptRetryHandler(message('2023-12-31T23:55:00.000'), mockContext)).rejects.toThrow(RetryBudgetExceededError)
+  })
+
+  test('should dead-letter with reason RetryBudgetExceeded', async () => {
+    await deadLetterRetryHandler(message('2023-12-31T23:55:30.000'), mockContext)
+
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'test-lock-token' }),
+      expect.objectContaining({ deadLetterReason: 'RetryBudgetExceeded' }))
+  })
+})
+
+describe('executeWithRetries - circuit breaker', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-circuit-breaker-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: {
+      maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false,
+      circuitBreaker: { failureThreshold: 2, windowSeconds: 60, openSeconds: 120 },
+    }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-01T00:00:00.000' }
+  })
+
+  test('should open after repeated failures and reschedule messages spread over the open period after the half-open time without calling the handler', async () => {
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await retryHandler('first', mockContext)
+    await retryHandler('second', mockContext)
+    vi.clearAllMocks()
+
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0.25).mockReturnValueOnce(0.75)
+    await retryHandler({ message: 'third', publishCount: 3, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)
+    await retryHandler('sixth', mockContext)
+    vi.mocked(Math.random).mockRestore()
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ message: 'third', publishCount: 4, uncountedRetryCount: 1 }) }),
+      new Date('2024-01-01T00:02:30Z'))
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ message: 'sixth' }) }),
+      new Date('2024-01-01T00:03:30Z'))
+  })
+
+  test('should call the handler again once half-open, and close on success', async () => {
+    vi.setSystemTime(new Date('2024-01-01T00:02:00Z'))
+    handler.mockResolvedValue(undefined)
+    await retryHandler('fourth', mockContext)
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    await retryHandler('fifth', mockContext)
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(mockSender.scheduleMessages).toHaveBeenCalledOnce()
+  })
+})
+
+describe('executeWithRetries - in-process retries', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const attempts: number[] = []
+
+  await serviceBusQueueWithRetries('test-in-process-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: {
+      maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false,
+      inProcessRetries: { count: 2, delayMilliseconds: 100, lockDurationSeconds: 10 },
+    }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  const failWith = (error: unknown, failures: number) => handler.mockImplementation(async (_message: unknown, context: ServiceBusRetryInvocationContext) => {
+    attempts.push(context.attemptInInvocation)
+    if (attempts.length <= failures) {
+      throw error
+    }
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    attempts.length = 0
+    mockContext.triggerMetadata = { messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-01T00:00:00.000' }
+  })
+
+  afterEach(() => {
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+  })
+
+  test('should call the handler again in the same invocation before rescheduling', async () => {
+    failWith(new Error('Transient failure'), 2)
+    const invocation = retryHandler('data', mockContext)
+    await vi.advanceTimersByTimeAsync(300)
+    await invocation
+
+    expect(attempts).toEqual([1, 2, 3])
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should reschedule when all in-process retries fail', async () => {
+    failWith(new Error('Transient failure'), 3)
+    const invocation = retryHandler('data', mockContext)
+    await vi.advanceTimersByTimeAsync(300)
+    await invocation
+
+    expect(attempts).toEqual([1, 2, 3])
+    expect(mockSender.scheduleMessages).toHaveBeenCalledOnce()
+  })
+
+  test('should not retry non-retryable errors or errors with a retry-after hint in process', async () => {
+    failWith(new NonRetryableError('Invalid message'), 1)
+    await expect(retryHandler('data', mockContext)).rejects.toThrow(NonRetryableError)
+    expect(attempts).toEqual([1])
+
+    attempts.length = 0
+    failWith(new RetryAfterError(30), 1)
+    await retryHandler('data', mockContext)
+    expect(attempts).toEqual([1])
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.anything(), new Date('2024-01-01T00:00:30Z'))
+  })
+
+  test('should not start an in-process retry that would not finish within the lock duration', async () => {
+    handler.mockImplementation(async (_message: unknown, context: ServiceBusRetryInvocationContext) => {
+      attempts.push(context.attemptInInvocation)
+      vi.advanceTimersByTime(6000)
+      throw new Error('Slow failure')
+    })
+    await retryHandler('data', mockContext)
+
+    expect(attempts).toEqual([1])
+    expect(mockSender.scheduleMessages).toHaveBeenCalledOnce()
+  })
+})
+
+describe('executeWithRetries - retry state store', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const stateStore = new InMemoryRetryStateStore()
+  const claimCheck = '2f1c6a52-8d4e-4b7a-9c1e-3f5d2a6b7c8d'
+
+  await serviceBusQueueWithRetries('test-state-store-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 2, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false, stateStore }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  await serviceBusQueueWithRetries('test-state-store-parking-lot-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 2, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false, stateStore, onExhausted: { forwardTo: 'test-parking-lot' } }
+  })
+  const parkingLotHandler = calls[calls.length - 1][1].handler
+
+  const claimCheckMessage = (publishCount: number) => ({ publishCount, originalBindingData: { messageId: 'test-message-id-original' }, claimCheck })
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+    await stateStore.save(claimCheck, { test: 'data' })
+  })
+
+  test('should store the body and reschedule a claim-check reference only', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ test: 'new' }, mockContext)
+
+    const body = (mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).body
+    expect(body.message).toBeUndefined()
+    expect(body.claimCheck).toMatch(/^[0-9a-f-]{36}$/)
+    expect(await stateStore.load(body.claimCheck)).toEqual({ test: 'new' })
+  })
+
+  test('should look up the body and keep the reference when rescheduling again', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler(claimCheckMessage(2), mockContext)
+
+    expect(handler).toHaveBeenCalledWith({ test: 'data' }, mockContext)
+    expect((mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).body).toMatchObject({ publishCount: 3, claimCheck })
+    expect(await stateStore.load(claimCheck)).toEqual({ test: 'data' })
+  })
+
+  test('should delete the body once the message completes', async () => {
+    handler.mockResolvedValue(undefined)
+    await retryHandler(claimCheckMessage(2), mockContext)
+
+    expect(await stateStore.load(claimCheck)).toBeUndefined()
+  })
+
+  test('should keep the body when the exhausted message only carries the claim-check reference', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await expect(retryHandler(claimCheckMessage(3), mockContext)).rejects.toThrow(MaxRetriesReachedError)
+
+    expect(await stateStore.load(claimCheck)).toEqual({ test: 'data' })
+  })
+
+  test('should delete the body once the exhausted message is forwarded with its body', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await parkingLotHandler(claimCheckMessage(3), mockContext)
+
+    expect(mockSender.sendMessages).toHaveBeenCalledWith(expect.objectContaining({ body: { test: 'data' } }))
+    expect(await stateStore.load(claimCheck)).toBeUndefined()
+  })
+
+  test('should fail without calling the handler when the body is missing', async () => {
+    await stateStore.delete(claimCheck)
+    await expect(retryHandler(claimCheckMessage(2), mockContext)).rejects.toThrow(`No message body found for claim-check reference ${claimCheck}`)
+
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeWithRetries - message size guard', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const largeMessage = { test: 'x'.repeat(1000) }
+
+  await serviceBusQueueWithRetries('test-size-guard-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, maxMessageSizeBytes: 1000 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  const stateStore = new InMemoryRetryStateStore()
+  await serviceBusQueueWithRetries('test-size-guard-claim-check-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, maxMessageSizeBytes: 1000, onMessageTooLarge: 'claimCheck', stateStore }
+  })
+  const claimCheckHandler = vi.mocked(app.serviceBusQueue).mock.calls[calls.length - 1][1].handler
+
+  await serviceBusQueueWithRetries('test-size-guard-dead-letter-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, maxMessageSizeBytes: 1000, onExhausted: 'deadLetter' }
+  })
+  const deadLetterHandler = vi.mocked(app.serviceBusQueue).mock.calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id', lockToken: 'test-lock-token' }
+    handler.mockRejectedValue(new Error('Function execution failed'))
+  })
+
+  test('should reschedule messages within the limit', async () => {
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalled()
+  })
+
+  test('should throw a RetryMessageTooLargeError instead of scheduling a message over the limit', async () => {
+    const error = await retryHandler(largeMessage, mockContext).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(RetryMessageTooLargeError)
+    expect(error).toMatchObject({ originalMessageId: 'test-message-id', maxSizeBytes: 1000 })
+    expect((error as RetryMessageTooLargeError).sizeBytes).toBeGreaterThan(1000)
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should only store the body of messages over the limit when onMessageTooLarge is claimCheck', async () => {
+    await claimCheckHandler({ test: 'data' }, mockContext)
+    await claimCheckHandler(largeMessage, mockContext)
+
+    const smallBody = (mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).body
+    const largeBody = (mockSender.scheduleMessages.mock.calls[1][0] as ServiceBusMessage).body
+    expect(smallBody).toMatchObject({ message: { test: 'data' } })
+    expect(smallBody.claimCheck).toBeUndefined()
+    expect(largeBody.message).toBeUndefined()
+    expect(await stateStore.load(largeBody.claimCheck)).toEqual(largeMessage)
+  })
+
+  test('should keep the reference of a stored body when onMessageTooLarge is claimCheck', async () => {
+    const claimCheck = '2f1c6a52-8d4e-4b7a-9c1e-3f5d2a6b7c8d'
+    await stateStore.save(claimCheck, { test: 'data' })
+    await claimCheckHandler({ publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' }, claimCheck }, mockContext)
+
+    const body = (mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).body
+    expect(body).toMatchObject({ publishCount: 3, claimCheck })
+    expect(body.message).toBeUndefined()
+  })
+
+  test('should dead-letter with reason MessageTooLarge when onExhausted is deadLetter', async () => {
+    await deadLetterHandler(largeMessage, mockContext)
+
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ deadLetterReason: 'MessageTooLarge' }))
+  })
+
+  test('should throw at registration when onMessageTooLarge is claimCheck without a stateStore', () => {
+    expect(() => serviceBusQueueWithRetries('test-size-guard-no-state-store-function', {
+      queueName: 'test-queue',
+      connection: 'test-connection',
+      handler,
+      retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', maxMessageSizeBytes: 1000, onMessageTooLarge: 'claimCheck' }
+    })).toThrow('requires a stateStore')
+    expect(app.serviceBusQueue).not.toHaveBeenCalled()
+  })
+})
+
+describe('serviceBusTopicWithRetries', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const retryConfig: ServiceBusRetryConfiguration = {
+    maxRetries: 3,
+    delaySeconds: 5,
+    sendConnectionString: 'test-send-connection',
+    jitter: 0,
+  }
+
+  const handler = vi.fn()
+
+  await serviceBusTopicWithRetries('test-topic-function', {
+    topicName: 'test-topic',
+    subscriptionName: 'test-subscription',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: retryConfig
+  })
+
+  const retryHandler = vi.mocked(app.serviceBusTopic).mock.calls[0][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageId: 'test-message-id',
+      enqueuedTimeUtc: '2024-01-01T00:00:00.000',
+    }
+  })
+
+  test('should use default service bus topic trigger when no retry configuration is provided', () => {
+    const options = {
+      topicName: 'test-topic',
+      subscriptionName: 'test-subscription',
+      connection: 'test-connection',
+      handler: vi.fn()
+    }
+
+    serviceBusTopicWithRetries('test-function', options)
+    expect(app.serviceBusTopic).toHaveBeenCalledWith('test-function', options)
+  })
+
+  test('should reschedule the message targeted at the failing subscription', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({ message: { test: 'data' }, publishCount: 2 }),
+        applicationProperties: { 'x-retry-target-subscription': 'test-subscription' },
+      }), new Date('2024-01-01T00:00:05Z'))
+  })
+
+  test('should process a retry message targeted at this subscription', async () => {
+    handler.mockResolvedValue(undefined)
+    mockContext.triggerMetadata!.applicationProperties = { 'x-retry-target-subscription': 'test-subscription' }
+    const message = { message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' } }
+    await retryHandler(message, mockContext)
+
+    expect(handler).toHaveBeenCalledWith('data', mockContext)
+    expect(mockContext.publishCount).toBe(2)
+  })
+
+  test('should ignore a retry message targeted at another subscription', async () => {
+    mockContext.triggerMetadata!.applicationProperties = { 'x-retry-target-subscription': 'other-subscription' }
+    const message = { message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' } }
+    await retryHandler(message, mockContext)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeBatchWithRetries', async () => {
+  const mockContext = mock<ServiceBusRetryBatchInvocationContext>()
+  const retryConfig: ServiceBusRetryConfiguration = {
+    maxRetries: 3,
+    delaySeconds: 5,
+    retryStrategy: 'exponential',
+    sendConnectionString: 'test-send-connection',
+    jitter: 0,
+  }
+
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-batch-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    cardinality: 'many',
+    handler,
+    retryConfiguration: retryConfig
+  })
+
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  const messages = [
+    { test: 'first' },
+    { message: { test: 'second' }, publishCount: 3, originalBindingData: { messageId: 'original-2' } },
+    { message: { test: 'third' }, publishCount: 4, originalBindingData: { messageId: 'original-3' } },
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageIdArray: ['message-1', 'message-2', 'message-3'],
+      enqueuedTimeUtcArray: ['2024-01-01T00:00:00.000', '2024-01-01T00:00:00.000', '2024-01-01T00:00:00.000'],
+      lockTokenArray: ['lock-1', 'lock-2', 'lock-3'],
+    }
+  })
+
+  test('should unwrap messages and expose retry metadata for each message', async () => {
+    handler.mockResolvedValue('success')
+    const result = await retryHandler(messages, mockContext)
+
+    expect(result).toBe('success')
+    expect(handler).toHaveBeenCalledWith([{ test: 'first' }, { test: 'second' }, { test: 'third' }], mockContext)
+    expect(mockContext.retryMetadata).toEqual([
+      { publishCount: 1, originalBindingData: { messageId: 'message-1', enqueuedTimeUtc: '2024-01-01T00:00:00.000', expiresAtUtc: undefined }, failureHistory: [] },
+      { publishCount: 3, originalBindingData: { messageId: 'original-2' }, failureHistory: [] },
+      { publishCount: 4, originalBindingData: { messageId: 'original-3' }, failureHistory: [] },
+    ])
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should only reschedule the messages reported as failed, each with its own backoff', async () => {
+    handler.mockRejectedValue(new BatchProcessingError([{ index: 0 }, { index: 1 }]))
+    await retryHandler(messages, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledTimes(2)
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ message: { test: 'first' }, publishCount: 2 }) }),
+      new Date('2024-01-01T00:00:05Z'))
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ message: { test: 'second' }, publishCount: 4 }) }),
+      new Date('2024-01-01T00:00:20Z'))
+    expect(mockReceiver.deadLetterMessage).not.toHaveBeenCalled()
+    expect(mockContext.scheduledSequenceNumbers).toHaveLength(2)
+    expect(mockContext.scheduledSequenceNumbers[2]).toBeUndefined()
+  })
+
+  test('should treat any other error as a failure of all messages and dead-letter exhausted messages one by one', async () => {
+    handler.mockRejectedValue(new Error('Batch failed'))
+    await retryHandler(messages, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledTimes(2)
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledTimes(1)
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'lock-3' }),
+      expect.objectContaining({ deadLetterReason: 'MaxRetriesReached' }))
+  })
+
+  test('should dead-letter a failed message that has expired', async () => {
+    const expiredMessages = [
+      { message: { test: 'expired' }, publishCount: 1, originalBindingData: { messageId: 'original-1', expiresAtUtc: '2023-12-31T23:59:59' } },
+    ]
+    handler.mockRejectedValue(new BatchProcessingError([{ index: 0 }]))
+    await retryHandler(expiredMessages, mockContext)
+
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'lock-1' }),
+      expect.objectContaining({ deadLetterReason: 'MessageExpired' }))
+  })
+
+  test('should dead-letter a failed message with a non-retryable error', async () => {
+    handler.mockRejectedValue(new BatchProcessingError([{ index: 0, error: new NonRetryableError('Invalid payload') }, { index: 1 }]))
+    await retryHandler(messages, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledTimes(1)
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'lock-1' }),
+      expect.objectContaining({ deadLetterReason: 'NonRetryable', deadLetterErrorDescription: 'Invalid payload. Last error: NonRetryableError: Invalid payload' }))
+  })
+
+  test('should handle each failed index only once', async () => {
+    handler.mockRejectedValue(new BatchProcessingError([{ index: 0 }, { index: 0 }]))
+    await retryHandler(messages, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledTimes(1)
+  })
+
+  test('should ignore reported failures for unknown indexes', async () => {
+    handler.mockRejectedValue(new BatchProcessingError([{ index: 7 }]))
+    await retryHandler(messages, mockContext)
+
+    expect(mockContext.warn).toHaveBeenCalled()
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should rethrow when rescheduling fails', async () => {
+    handler.mockRejectedValue(new BatchProcessingError([{ index: 0 }]))
+    mockSender.scheduleMessages.mockRejectedValueOnce(new Error('Send failed'))
+    await expect(retryHandler(messages, mockContext)).rejects.toThrow('Send failed')
+  })
+})
+
+describe('executeBatchWithRetries - topic', async () => {
+  const mockContext = mock<ServiceBusRetryBatchInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusTopicWithRetries('test-topic-batch-function', {
+    topicName: 'test-topic',
+    subscriptionName: 'test-subscription',
+    connection: 'test-connection',
+    cardinality: 'many',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+
+  const calls = vi.mocked(app.serviceBusTopic).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  test('should skip retries targeted at other subscriptions', async () => {
+    mockContext.triggerMetadata = {
+      messageIdArray: ['message-1', 'message-2'],
+      applicationPropertiesArray: [{ 'x-retry-target-subscription': 'other-subscription' }, {}],
+    }
+    const messages = [
+      { message: 'other', publishCount: 2, originalBindingData: { messageId: 'original-1' } },
+      'mine',
+    ]
+    await retryHandler(messages, mockContext)
+    expect(handler).toHaveBeenCalledWith(['mine'], mockContext)
+  })
+
+  test('should not call the handler when all messages are targeted at other subscriptions', async () => {
+    handler.mockClear()
+    mockContext.triggerMetadata = {
+      messageIdArray: ['message-1'],
+      applicationPropertiesArray: [{ 'x-retry-target-subscription': 'other-subscription' }],
+    }
+    await retryHandler([{ message: 'other', publishCount: 2, originalBindingData: {} }], mockContext)
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeWithRetries - idempotent rescheduling', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-idempotent-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, lockDurationSeconds: 60, dedupeWindowSeconds: 300 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  await serviceBusTopicWithRetries('test-idempotent-topic-function', {
+    topicName: 'test-topic',
+    subscriptionName: 'test-subscription',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+  const topicCalls = vi.mocked(app.serviceBusTopic).mock.calls
+  const topicRetryHandler = topicCalls[topicCalls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  afterEach(() => {
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+  })
+
+  test('should give retries a messageId based on the original messageId and publish count', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-idempotent-original' } }, mockContext)
+
+    expect((mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).messageId).toBe('test-idempotent-original-retry-3')
+  })
+
+  test('should give a message that is sent again with the same messageId other retry messageIds', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    mockContext.triggerMetadata = { messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-01T00:00:00.000Z' }
+    await retryHandler({ test: 'data' }, mockContext)
+    // Replayed from a parking lot a day later
+    mockContext.triggerMetadata = { messageId: 'test-message-id', enqueuedTimeUtc: '2024-01-02T00:00:00.000Z' }
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect((mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).messageId).toBe('test-message-id-20240101000000000-retry-2')
+    expect((mockSender.scheduleMessages.mock.calls[1][0] as ServiceBusMessage).messageId).toBe('test-message-id-20240102000000000-retry-2')
+  })
+
+  test('should add the subscription name to the messageId for topic triggers', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await topicRetryHandler({ test: 'data' }, mockContext)
+
+    expect((mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).messageId).toBe('test-message-id-test-subscription-retry-2')
+  })
+
+  test('should hash messageIds that would be longer than 128 characters', async () => {
+    mockContext.triggerMetadata = { messageId: 'x'.repeat(128) }
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await topicRetryHandler({ test: 'data' }, mockContext)
+
+    expect((mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).messageId).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  test('should not schedule a retry that was already scheduled by this instance', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    const message = { message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-idempotent-duplicate' } }
+    await retryHandler(message, mockContext)
+    await retryHandler(message, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledTimes(1)
+  })
+
+  test('should throw a MessageLockLostError instead of scheduling when the lock is about to expire', async () => {
+    handler.mockImplementation(async () => {
+      vi.setSystemTime(new Date('2024-01-01T00:00:56Z'))
+      throw new Error('Function execution failed')
+    })
+    await expect(retryHandler({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-idempotent-lock' } }, mockContext)).rejects.toThrow(MessageLockLostError)
+
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeWithRetries - sessions', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-session-function', {
+    queueName: 'test-session-queue',
+    connection: 'test-connection',
+    isSessionsEnabled: true,
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveMessageProperties: { exclude: ['sessionId'] }, sessions: { holdBack: true } }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  const receive = (messageId: string, message: unknown) => {
+    mockContext.triggerMetadata = { messageId, sessionId: 'test-session' }
+    return retryHandler(message, mockContext)
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('should keep the sessionId on rescheduled messages', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await receive('test-session-message', { test: 'data' })
+
+    expect((mockSender.scheduleMessages.mock.calls[0][0] as ServiceBusMessage).sessionId).toBe('test-session')
+    handler.mockResolvedValue(undefined)
+    await receive('test-session-message-retry-2', { message: { test: 'data' }, publishCount: 2, originalBindingData: { messageId: 'test-session-message' } })
+  })
+
+  test('should hold back later messages in the session until the failing message succeeds', async () => {
+    handler.mockRejectedValueOnce(new Error('Function execution failed'))
+    await receive('test-session-first', { test: 'first' })
+    await receive('test-session-second', { test: 'second' })
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(mockSender.scheduleMessages).toHaveBeenLastCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ message: { test: 'second' }, uncountedRetryCount: 1 }) }),
+      new Date('2024-01-01T00:00:10Z'))
+
+    handler.mockResolvedValue(undefined)
+    await receive('test-session-first-retry-2', { message: { test: 'first' }, publishCount: 2, originalBindingData: { messageId: 'test-session-first' } })
+    await receive('test-session-second-retry-2', { message: { test: 'second' }, publishCount: 2, originalBindingData: { messageId: 'test-session-second' }, uncountedRetryCount: 1 })
+
+    expect(handler).toHaveBeenCalledWith({ test: 'second' }, mockContext)
+  })
+
+  test('should release the session when the failing message is exhausted', async () => {
+    handler.mockRejectedValueOnce(new Error('Function execution failed'))
+    await expect(receive('test-session-exhausted-retry-4', { message: 'first', publishCount: 4, originalBindingData: { messageId: 'test-session-exhausted' } })).rejects.toThrow(MaxRetriesReachedError)
+
+    handler.mockResolvedValue(undefined)
+    await receive('test-session-next', 'next')
+    expect(handler).toHaveBeenCalledWith('next', mockContext)
+  })
+
+  test('should throw at registration when a session trigger dead-letters directly', () => {
+    expect(() => serviceBusQueueWithRetries('test-session-dead-letter-function', {
+      queueName: 'test-session-queue',
+      connection: 'test-connection',
+      isSessionsEnabled: true,
+      handler,
+      retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', onExhausted: 'deadLetter' }
+    })).toThrow('not supported for session triggers')
+    expect(() => serviceBusQueueWithRetries('test-session-batch-function', {
+      queueName: 'test-session-queue',
+      connection: 'test-connection',
+      isSessionsEnabled: true,
+      cardinality: 'many',
+      handler,
+      retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection' }
+    })).toThrow('requires onExhausted to be a parking lot')
+    expect(app.serviceBusQueue).not.toHaveBeenCalled()
+  })
+})
+
+describe('cancelScheduledRetries', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-cancel-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-cancel-original' }
+    mockContext.scheduledSequenceNumber = undefined
+  })
+
+  test('should expose the sequence number of the scheduled retry on the context and cancel it', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ test: 'data' }, mockContext)
+    const sequenceNumber = mockContext.scheduledSequenceNumber
+
+    expect(sequenceNumber).toBeDefined()
+    expect(await cancelScheduledRetries('test-cancel-original')).toBe(1)
+    expect(mockSender.cancelScheduledMessages).toHaveBeenCalledWith(sequenceNumber)
+    expect(await cancelScheduledRetries('test-cancel-original')).toBe(0)
+  })
+
+  test('should not cancel a retry that was already received', async () => {
+    handler.mockRejectedValueOnce(new Error('Function execution failed'))
+    await retryHandler({ test: 'data' }, mockContext)
+    handler.mockResolvedValue(undefined)
+    await retryHandler({ message: { test: 'data' }, publishCount: 2, originalBindingData: { messageId: 'test-cancel-original' } }, mockContext)
+
+    expect(await cancelScheduledRetries('test-cancel-original')).toBe(0)
+    expect(mockSender.cancelScheduledMessages).not.toHaveBeenCalled()
+  })
+
+  test('should ignore retries that were already enqueued', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ test: 'data' }, mockContext)
+    mockSender.cancelScheduledMessages.mockRejectedValueOnce(Object.assign(new Error('Message not found'), { code: 'MessageNotFound' }))
+
+    expect(await cancelScheduledRetries('test-cancel-original')).toBe(0)
+  })
+})
+
+describe('executeWithRetries - lifecycle hooks', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const hooks = {
+    onRetryScheduled: vi.fn(),
+    onExhausted: vi.fn(),
+    onExpired: vi.fn(),
+    onSuccessAfterRetry: vi.fn(),
+  }
+
+  await serviceBusQueueWithRetries('test-hooks-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    hooks,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const options = calls[calls.length - 1][1]
+  const retryHandler = options.handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  test('should not pass the hooks to the Functions host', () => {
+    expect(options).not.toHaveProperty('hooks')
+  })
+
+  test('should call onRetryScheduled with the message, error, scheduled time and sequence number', async () => {
+    const error = new Error('Function execution failed')
+    handler.mockRejectedValue(error)
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(hooks.onRetryScheduled).toHaveBeenCalledWith({
+      message: { test: 'data' },
+      context: mockContext,
+      error,
+      scheduledTime: new Date('2024-01-01T00:00:05Z'),
+      sequenceNumber: mockContext.scheduledSequenceNumber,
+      publishCount: 2,
+    })
+  })
+
+  test('should call onExhausted with the reason before throwing', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await expect(retryHandler({ message: 'data', publishCount: 4, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)).rejects.toThrow(MaxRetriesReachedError)
+
+    expect(hooks.onExhausted).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'data',
+      error: expect.any(MaxRetriesReachedError),
+      reason: 'MaxRetriesReached',
+    }))
+    expect(hooks.onExpired).not.toHaveBeenCalled()
+  })
+
+  test('should call onExpired instead of onExhausted for expired messages', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await expect(retryHandler({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original', expiresAtUtc: '2023-12-31T23:59:59' } }, mockContext)).rejects.toThrow(MessageExpiredError)
+
+    expect(hooks.onExpired).toHaveBeenCalledWith(expect.objectContaining({ message: 'data', error: expect.any(MessageExpiredError) }))
+    expect(hooks.onExhausted).not.toHaveBeenCalled()
+  })
+
+  test('should call onSuccessAfterRetry only when a retry succeeds', async () => {
+    handler.mockResolvedValue(undefined)
+    await retryHandler({ test: 'data' }, mockContext)
+    expect(hooks.onSuccessAfterRetry).not.toHaveBeenCalled()
+
+    await retryHandler({ message: 'data', publishCount: 3, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)
+    expect(hooks.onSuccessAfterRetry).toHaveBeenCalledWith({ message: 'data', context: mockContext, publishCount: 3 })
+  })
+
+  test('should log a warning and continue when a hook fails', async () => {
+    hooks.onRetryScheduled.mockRejectedValueOnce(new Error('Audit store unavailable'))
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalled()
+    expect(mockContext.warn).toHaveBeenCalledWith(expect.stringContaining('"event":"hookFailed","message":"onRetryScheduled hook failed","error":"Error: Audit store unavailable"'))
+  })
+})
+
+describe('executeWithRetries - logging', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const logger = { log: vi.fn() }
+
+  await serviceBusQueueWithRetries('test-logging-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, logger, logLevel: 'info' }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.functionName = 'test-logging-function'
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  test('should pass structured events to the configured logger', async () => {
+    handler.mockRejectedValue(new Error('Function execution failed'))
+    await retryHandler({ message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)
+
+    expect(logger.log).toHaveBeenCalledWith('info', {
+      event: 'retryScheduled',
+      message: 'Rescheduling message',
+      functionName: 'test-logging-function',
+      originalMessageId: 'test-message-id-original',
+      currentMessageId: 'test-message-id',
+      publishCount: 2,
+      delaySeconds: 5,
+      scheduledTime: '2024-01-01T00:00:05.000Z',
+    }, mockContext)
+    expect(mockContext.info).not.toHaveBeenCalled()
+  })
+
+  test('should not pass events below the log level', async () => {
+    handler.mockResolvedValue(undefined)
+    await retryHandler({ test: 'data' }, mockContext)
+
+    expect(logger.log).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeWithRetries - schema validation', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const schema = {
+    parse: vi.fn((message: unknown) => {
+      const order = message as { orderId?: unknown }
+      if (typeof order.orderId !== 'string') {
+        throw new Error('orderId is required')
+      }
+      return { orderId: order.orderId.toUpperCase() }
+    }),
+  }
+
+  await serviceBusQueueWithRetries<{ orderId: string }>('test-schema-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    schema,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const options = calls[calls.length - 1][1]
+  const retryHandler = options.handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  test('should not pass the schema to the Functions host', () => {
+    expect(options).not.toHaveProperty('schema')
+  })
+
+  test('should pass the parsed message to the handler', async () => {
+    await retryHandler({ message: { orderId: 'order-1' }, publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' } }, mockContext)
+
+    expect(schema.parse).toHaveBeenCalledWith({ orderId: 'order-1' })
+    expect(handler).toHaveBeenCalledWith({ orderId: 'ORDER-1' }, mockContext)
+  })
+
+  test('should fail invalid messages without calling the handler or rescheduling', async () => {
+    const result = retryHandler({ customerId: 'customer-1' }, mockContext)
+
+    await expect(result).rejects.toThrow(MessageValidationError)
+    await expect(result).rejects.toBeInstanceOf(NonRetryableError)
+    await expect(result).rejects.toHaveProperty('cause', new Error('orderId is required'))
+    expect(handler).not.toHaveBeenCalled()
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+
+  test('should not unwrap messages that only have a publishCount field', async () => {
+    await retryHandler({ orderId: 'order-1', publishCount: 7 }, mockContext)
+
+    expect(schema.parse).toHaveBeenCalledWith({ orderId: 'order-1', publishCount: 7 })
+    expect(mockContext.publishCount).toBe(1)
+  })
+})
+
+describe('executeBatchWithRetries - schema validation', async () => {
+  const mockContext = mock<ServiceBusRetryBatchInvocationContext>()
+  const handler = vi.fn()
+  const parse = (message: unknown): string => {
+    if (typeof message !== 'string') {
+      throw new Error('Expected a string')
+    }
+    return message
+  }
+
+  await serviceBusQueueWithRetries<string>('test-batch-schema-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    cardinality: 'many',
+    handler,
+    schema: parse,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageIdArray: ['message-1', 'message-2', 'message-3'],
+      lockTokenArray: ['lock-1', 'lock-2', 'lock-3'],
+    }
+  })
+
+  test('should dead-letter invalid messages and pass the valid messages to the handler', async () => {
+    handler.mockRejectedValue(new BatchProcessingError([{ index: 1, error: new Error('Failed') }]))
+    await retryHandler(['first', { invalid: true }, 'third'], mockContext)
+
+    expect(handler).toHaveBeenCalledWith(['first', 'third'], mockContext)
+    expect(mockContext.retryMetadata).toHaveLength(2)
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledOnce()
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(expect.objectContaining({ lockToken: 'lock-2' }), expect.objectContaining({ deadLetterReason: 'NonRetryable' }))
+    expect(mockSender.scheduleMessages).toHaveBeenCalledOnce()
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(expect.objectContaining({ messageId: 'message-3-retry-2' }), expect.any(Date))
+  })
+})
+
+describe('executeWithRetries - envelope schema version', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-schema-version-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  test('should not call the handler for envelopes with an unsupported schema version', async () => {
+    const message = { $type: 'servicebus-retry-wrapper', schemaVersion: 2, message: 'data', publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' } }
+
+    await expect(retryHandler(message, mockContext)).rejects.toThrow(UnsupportedRetrySchemaVersionError)
+    expect(handler).not.toHaveBeenCalled()
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeBatchWithRetries - invalid envelopes', async () => {
+  const mockContext = mock<ServiceBusRetryBatchInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-batch-invalid-envelope-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    cardinality: 'many',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0 }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageIdArray: ['message-1', 'message-2', 'message-3'],
+      lockTokenArray: ['lock-1', 'lock-2', 'lock-3'],
+    }
+  })
+
+  test('should dead-letter a message with an unsupported schema version and pass the other messages to the handler', async () => {
+    const unsupportedMessage = { $type: 'servicebus-retry-wrapper', schemaVersion: 2, message: 'second', publishCount: 2, originalBindingData: { messageId: 'message-2-original' } }
+
+    await retryHandler(['first', unsupportedMessage, 'third'], mockContext)
+
+    expect(handler).toHaveBeenCalledWith(['first', 'third'], mockContext)
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledOnce()
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'lock-2' }),
+      expect.objectContaining({ deadLetterReason: 'NonRetryable', deadLetterErrorDescription: expect.stringContaining('schema version 2 is not supported') }))
+    expect(mockSender.scheduleMessages).not.toHaveBeenCalled()
+  })
+})
+
+describe('executeBatchWithRetries - missing claim-check body', async () => {
+  const mockContext = mock<ServiceBusRetryBatchInvocationContext>()
+  const handler = vi.fn()
+  const stateStore = new InMemoryRetryStateStore()
+
+  await serviceBusQueueWithRetries('test-batch-missing-claim-check-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    cardinality: 'many',
+    handler,
+    retryConfiguration: { maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, stateStore }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = {
+      messageIdArray: ['message-1', 'message-2', 'message-3'],
+      lockTokenArray: ['lock-1', 'lock-2', 'lock-3'],
+    }
+  })
+
+  test('should dead-letter a message whose body is missing and pass the other messages to the handler', async () => {
+    const missingBodyMessage = { publishCount: 2, originalBindingData: { messageId: 'message-2-original' }, claimCheck: 'missing-claim-check' }
+
+    await retryHandler(['first', missingBodyMessage, 'third'], mockContext)
+
+    expect(handler).toHaveBeenCalledWith(['first', 'third'], mockContext)
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledOnce()
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'lock-2' }),
+      expect.objectContaining({ deadLetterReason: 'NonRetryable', deadLetterErrorDescription: expect.stringContaining('No message body found for claim-check reference missing-claim-check') }))
+  })
+})
+
+describe('executeWithRetries - backoff after pauses', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+
+  await serviceBusQueueWithRetries('test-backoff-after-pauses-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: {
+      maxRetries: 3, delaySeconds: 5, retryStrategy: 'exponential', sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false,
+    }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  test('should not raise the backoff for reschedules that do not count toward maxRetries', async () => {
+    handler.mockRejectedValue(new Error('Downstream unavailable'))
+    // Paused ten times by the circuit breaker before the first real failure
+    const pausedMessage = { message: 'data', publishCount: 11, uncountedRetryCount: 10, originalBindingData: { messageId: 'test-message-id-original' } }
+
+    await retryHandler(pausedMessage, mockContext)
+
+    expect(mockSender.scheduleMessages).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.objectContaining({ publishCount: 12, uncountedRetryCount: 10, previousDelaySeconds: 5 }) }),
+      new Date('2024-01-01T00:00:05Z'))
+  })
+})
+
+describe('executeWithRetries - in-process retries within the lock', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const attempts: number[] = []
+
+  await serviceBusQueueWithRetries('test-in-process-lock-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: {
+      maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, preserveExpiresAt: false, lockDurationSeconds: 60,
+      inProcessRetries: { count: 2, delayMilliseconds: 100 },
+    }
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    attempts.length = 0
+    mockContext.triggerMetadata = { messageId: 'test-message-id' }
+  })
+
+  afterEach(() => {
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+  })
+
+  test('should leave room within the lock to reschedule after the last in-process attempt', async () => {
+    handler.mockImplementation(async (_message: unknown, context: ServiceBusRetryInvocationContext) => {
+      attempts.push(context.attemptInInvocation)
+      vi.advanceTimersByTime(28_000)
+      throw new Error('Slow failure')
+    })
+    await retryHandler('data', mockContext)
+
+    expect(attempts).toEqual([1])
+    expect(mockSender.scheduleMessages).toHaveBeenCalledOnce()
+  })
+})
+
+describe('executeWithRetries - messages that can not be unwrapped', async () => {
+  const mockContext = mock<ServiceBusRetryInvocationContext>()
+  const handler = vi.fn()
+  const onExhausted = vi.fn()
+
+  await serviceBusQueueWithRetries('test-unwrap-failure-function', {
+    queueName: 'test-queue',
+    connection: 'test-connection',
+    handler,
+    retryConfiguration: {
+      maxRetries: 3, delaySeconds: 5, sendConnectionString: 'test-send-connection', jitter: 0, onExhausted: 'deadLetter', stateStore: new InMemoryRetryStateStore(),
+    },
+    hooks: { onExhausted },
+  })
+  const calls = vi.mocked(app.serviceBusQueue).mock.calls
+  const retryHandler = calls[calls.length - 1][1].handler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockContext.triggerMetadata = { messageId: 'test-message-id', lockToken: 'test-lock-token' }
+  })
+
+  test('should dead-letter a single message whose body is missing, like a batch does', async () => {
+    const missingBodyMessage = { publishCount: 2, originalBindingData: { messageId: 'test-message-id-original' }, claimCheck: 'missing-claim-check' }
+
+    await retryHandler(missingBodyMessage, mockContext)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(mockContext.publishCount).toBe(2)
+    expect(mockReceiver.deadLetterMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ lockToken: 'test-lock-token' }),
+      expect.objectContaining({ deadLetterReason: 'NonRetryable', deadLetterErrorDescription: expect.stringContaining('No message body found for claim-check reference missing-claim-check') }))
+    expect(onExhausted).toHaveBeenCalledOnce()
+  })
+})
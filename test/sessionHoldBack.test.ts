@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createSessionHoldBack, InMemorySessionStateStore } from '../src/implementation/sessionHoldBack'
+
+describe('createSessionHoldBack', () => {
+    const retryTime = new Date('2024-01-01T00:01:00Z')
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    })
+
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should not hold back sessions without a failing message', async () => {
+        const holdBack = createSessionHoldBack('test-function', {})
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-1')).toBeUndefined()
+    })
+
+    it('should hold back other messages in the session until after the retry', async () => {
+        const holdBack = createSessionHoldBack('test-function', {})
+        await holdBack.holdBack('session-1', 'message-1', retryTime)
+
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-1')).toBeUndefined()
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-2')).toEqual(new Date('2024-01-01T00:01:05Z'))
+        expect(await holdBack.getHeldBackUntil('session-2', 'message-2')).toBeUndefined()
+    })
+
+    it('should keep the session held back by the first failing message', async () => {
+        const holdBack = createSessionHoldBack('test-function', {})
+        await holdBack.holdBack('session-1', 'message-1', retryTime)
+        await holdBack.holdBack('session-1', 'message-2', new Date('2024-01-01T00:00:30Z'))
+
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-2')).toEqual(new Date('2024-01-01T00:01:05Z'))
+    })
+
+    it('should only be released by the failing message', async () => {
+        const holdBack = createSessionHoldBack('test-function', {})
+        await holdBack.holdBack('session-1', 'message-1', retryTime)
+        await holdBack.release('session-1', 'message-2')
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-2')).toBeDefined()
+
+        await holdBack.release('session-1', 'message-1')
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-2')).toBeUndefined()
+    })
+
+    it('should hold back until shortly after now when the retry is late', async () => {
+        const holdBack = createSessionHoldBack('test-function', {})
+        await holdBack.holdBack('session-1', 'message-1', retryTime)
+        vi.setSystemTime(new Date('2024-01-01T00:02:00Z'))
+
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-2')).toEqual(new Date('2024-01-01T00:02:05Z'))
+    })
+
+    it('should stop holding back when the retry did not arrive within 5 minutes', async () => {
+        const holdBack = createSessionHoldBack('test-function', {})
+        await holdBack.holdBack('session-1', 'message-1', retryTime)
+        vi.setSystemTime(new Date('2024-01-01T00:06:01Z'))
+
+        expect(await holdBack.getHeldBackUntil('session-1', 'message-2')).toBeUndefined()
+    })
+
+    it('should share state between hold-backs with the same key prefix and store', async () => {
+        const stateStore = new InMemorySessionStateStore()
+        await createSessionHoldBack('test-function', { stateStore }).holdBack('session-1', 'message-1', retryTime)
+
+        expect(await createSessionHoldBack('test-function', { stateStore }).getHeldBackUntil('session-1', 'message-2')).toBeDefined()
+        expect(await createSessionHoldBack('other-function', { stateStore }).getHeldBackUntil('session-1', 'message-2')).toBeUndefined()
+    })
+})
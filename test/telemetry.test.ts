@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const openTelemetry = vi.hoisted(() => {
+    const span = { recordException: vi.fn(), setStatus: vi.fn(), end: vi.fn() }
+    const counters = new Map<string, { add: ReturnType<typeof vi.fn> }>()
+    const histogram = { record: vi.fn() }
+    const tracer = {
+        startActiveSpan: vi.fn((_name: string, _options: unknown, _context: unknown, fn: (activeSpan: typeof span) => unknown) => fn(span)),
+    }
+    return {
+        span,
+        counters,
+        histogram,
+        tracer,
+        api: {
+            SpanKind: { CONSUMER: 4 },
+            SpanStatusCode: { ERROR: 2 },
+            context: { active: vi.fn(() => ({ active: true })) },
+            propagation: {
+                extract: vi.fn((_context: unknown, carrier: Record<string, unknown>) => ({ traceparent: carrier.traceparent })),
+                inject: vi.fn((_context: unknown, carrier: Record<string, unknown>) => {
+                    carrier.traceparent = 'injected-traceparent'
+                }),
+            },
+            trace: {
+                getTracer: vi.fn(() => tracer),
+                getActiveSpan: vi.fn(() => span),
+                getSpanContext: vi.fn((context: { traceparent?: string }) => context.traceparent !== undefined ? { traceId: context.traceparent } : undefined),
+                isSpanContextValid: vi.fn(() => true),
+            },
+            metrics: {
+                getMeter: vi.fn(() => ({
+                    createCounter: vi.fn((name: string) => {
+                        const counter = { add: vi.fn() }
+                        counters.set(name, counter)
+                        return counter
+                    }),
+                    createHistogram: vi.fn(() => histogram),
+                })),
+            },
+        },
+    }
+})
+
+vi.mock('@opentelemetry/api', () => openTelemetry.api)
+
+async function getRetryTelemetry(enabled: boolean): ReturnType<typeof import('../src/implementation/telemetry').getRetryTelemetry> {
+    const telemetry = await import('../src/implementation/telemetry')
+    return telemetry.getRetryTelemetry(enabled)
+}
+
+describe('getRetryTelemetry', () => {
+    beforeEach(() => {
+        vi.resetModules()
+        vi.clearAllMocks()
+    })
+
+    it('should run the function in a consumer span with the parent and linked trace contexts', async () => {
+        const telemetry = await getRetryTelemetry(true)
+
+        const result = await telemetry.withSpan('test-function process', { 'faas.name': 'test-function' }, { traceparent: 'parent' }, [{ traceparent: 'original' }, undefined, {}], async () => 'result')
+
+        expect(result).toBe('result')
+        expect(openTelemetry.tracer.startActiveSpan).toHaveBeenCalledWith(
+            'test-function process',
+            { kind: 4, attributes: { 'faas.name': 'test-function' }, links: [{ context: { traceId: 'original' } }] },
+            { traceparent: 'parent' },
+            expect.any(Function))
+        expect(openTelemetry.span.end).toHaveBeenCalledOnce()
+    })
+
+    it('should mark the span as failed when the function throws', async () => {
+        const telemetry = await getRetryTelemetry(true)
+        const error = new Error('test error')
+
+        await expect(telemetry.withSpan('test-function process', {}, undefined, [], async () => { throw error })).rejects.toBe(error)
+
+        expect(openTelemetry.tracer.startActiveSpan).toHaveBeenCalledWith(expect.any(String), expect.any(Object), { active: true }, expect.any(Function))
+        expect(openTelemetry.span.recordException).toHaveBeenCalledWith(error)
+        expect(openTelemetry.span.setStatus).toHaveBeenCalledWith({ code: 2 })
+        expect(openTelemetry.span.end).toHaveBeenCalledOnce()
+    })
+
+    it('should inject the trace context and record metrics', async () => {
+        const telemetry = await getRetryTelemetry(true)
+        const carrier: Record<string, unknown> = {}
+
+        telemetry.injectTraceContext(carrier)
+        telemetry.recordRetryScheduled({ 'faas.name': 'test-function' }, 30)
+        telemetry.recordExhausted({ 'faas.name': 'test-function', 'servicebus.retry.reason': 'MaxRetriesReached' })
+        telemetry.recordExpired({ 'faas.name': 'test-function' })
+
+        expect(carrier).toEqual({ traceparent: 'injected-traceparent' })
+        expect(openTelemetry.counters.get('servicebus.retry.scheduled')?.add).toHaveBeenCalledWith(1, { 'faas.name': 'test-function' })
+        expect(openTelemetry.histogram.record).toHaveBeenCalledWith(30, { 'faas.name': 'test-function' })
+        expect(openTelemetry.counters.get('servicebus.retry.exhausted')?.add).toHaveBeenCalledWith(1, { 'faas.name': 'test-function', 'servicebus.retry.reason': 'MaxRetriesReached' })
+        expect(openTelemetry.counters.get('servicebus.retry.expired')?.add).toHaveBeenCalledWith(1, { 'faas.name': 'test-function' })
+    })
+
+    it('should do nothing when disabled', async () => {
+        const telemetry = await getRetryTelemetry(false)
+        const carrier: Record<string, unknown> = {}
+
+        expect(await telemetry.withSpan('test-function process', {}, undefined, [], async () => 'result')).toBe('result')
+        telemetry.injectTraceContext(carrier)
+
+        expect(carrier).toEqual({})
+        expect(openTelemetry.tracer.startActiveSpan).not.toHaveBeenCalled()
+    })
+
+    it('should do nothing when @opentelemetry/api is not installed', async () => {
+        vi.doMock('@opentelemetry/api', () => {
+            throw new Error('Cannot find package \'@opentelemetry/api\'')
+        })
+        const telemetry = await getRetryTelemetry(true)
+        const carrier: Record<string, unknown> = {}
+
+        expect(await telemetry.withSpan('test-function process', {}, undefined, [], async () => 'result')).toBe('result')
+        telemetry.injectTraceContext(carrier)
+
+        expect(carrier).toEqual({})
+        expect(openTelemetry.tracer.startActiveSpan).not.toHaveBeenCalled()
+        vi.doUnmock('@opentelemetry/api')
+    })
+})